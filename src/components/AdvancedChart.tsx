@@ -4,6 +4,7 @@ import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
+  TimeScale,
   PointElement,
   LineElement,
   BarElement,
@@ -13,8 +14,10 @@ import {
   Filler,
   ChartOptions,
 } from 'chart.js';
-import { DataPoint, ChartType, TrendPrediction } from '../types';
+import 'chartjs-adapter-luxon';
+import { ChartType, TimeSeries, TrendPrediction } from '../types';
 import { css } from '@emotion/css';
+import { downsampleLTTB } from '../utils/dataProcessing';
 
 function getPointCountAndLastValue(values: any[]): { count: number; last?: number } {
   let count = 0;
@@ -45,10 +48,40 @@ function getPointCountAndLastValue(values: any[]): { count: number; last?: numbe
   return { count, last };
 }
 
+// Colors for additional series; the first series always uses the primary color
+const SERIES_PALETTE = [
+  'rgb(115, 191, 105)',
+  'rgb(242, 204, 12)',
+  'rgb(138, 184, 255)',
+  'rgb(255, 120, 10)',
+  'rgb(202, 149, 229)',
+  'rgb(87, 148, 242)',
+  'rgb(255, 152, 48)',
+  'rgb(184, 119, 217)',
+];
+
+function getSeriesColor(index: number, primaryColor: string): string {
+  if (index === 0) {
+    return primaryColor;
+  }
+  return SERIES_PALETTE[(index - 1) % SERIES_PALETTE.length];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Map Grafana's dashboard timezone onto a Luxon zone; 'browser' and unset mean local time
+function toLuxonZone(timeZone?: string): string | undefined {
+  if (!timeZone || timeZone === 'browser') {
+    return undefined;
+  }
+  return timeZone === 'utc' ? 'utc' : timeZone;
+}
+
 // Register ChartJS components
 ChartJS.register(
   CategoryScale,
   LinearScale,
+  TimeScale,
   PointElement,
   LineElement,
   BarElement,
@@ -59,9 +92,12 @@ ChartJS.register(
 );
 
 interface Props {
-  data: DataPoint[];
+  series: TimeSeries[];
   predictions?: TrendPrediction[];
   chartType: ChartType;
+  width: number;
+  maxRenderedPoints: number;
+  timeZone?: string;
   primaryColor: string;
   secondaryColor: string;
   anomalyColor: string;
@@ -72,9 +108,12 @@ interface Props {
 }
 
 export const AdvancedChart: React.FC<Props> = ({
-  data,
+  series: fullSeries,
   predictions = [],
   chartType,
+  width,
+  maxRenderedPoints,
+  timeZone,
   primaryColor,
   secondaryColor,
   anomalyColor,
@@ -85,111 +124,113 @@ export const AdvancedChart: React.FC<Props> = ({
 }) => {
   const isScatter = chartType === 'scatter';
 
-  const chartData = useMemo(() => {
-    const labels = data.map((point) => {
-      const date = new Date(point.timestamp);
-      return date.toLocaleTimeString();
-    });
+  // Draw at most about one point per horizontal pixel, capped by the panel option
+  const targetPoints = Math.max(3, Math.min(maxRenderedPoints, Math.round(width)));
+  const series = useMemo(
+    () => fullSeries.map((s) => ({ ...s, points: downsampleLTTB(s.points, targetPoints) })),
+    [fullSeries, targetPoints]
+  );
+  const totalPoints = fullSeries.reduce((sum, s) => sum + s.points.length, 0);
+  const renderedPoints = series.reduce((sum, s) => sum + s.points.length, 0);
+
+  // Include the date in tooltips once the data (or its forecast) runs past a single day
+  const spansDays = useMemo(() => {
+    const timestamps = [
+      ...fullSeries.flatMap((s) =>
+        s.points.length ? [s.points[0].timestamp, s.points[s.points.length - 1].timestamp] : []
+      ),
+      ...predictions.map((p) => p.timestamp),
+    ];
+    return timestamps.length > 1 && Math.max(...timestamps) - Math.min(...timestamps) >= DAY_MS;
+  }, [fullSeries, predictions]);
 
-    const values = data.map((point) => point.value);
-    const anomalyPoints = data.map((point) =>
-      point.isAnomaly ? point.value : null
+  const chartData = useMemo(() => {
+    const multiSeries = series.length > 1;
+    const predictionsBySeries = new Map(
+      series.map((s) => [s.id, predictions.filter((p) => p.seriesId === s.id).slice(0, 100)]) // Cap at 100
     );
 
-    // Prediction data - connect to last actual data point
-    const allLabels = [
-      ...labels,
-      ...predictions.map((p) => {
-        const date = new Date(p.timestamp);
-        return date.toLocaleTimeString();
-      }),
-    ];
+    const datasets: any[] = [];
 
-    // Safe array length calculations
-    const dataLength = Math.max(0, data.length);
-    const predictionsLength = Math.max(0, Math.min(predictions.length, 100)); // Cap at 100
-    const bridgeLength = Math.max(0, dataLength - 1);
-
-    // Bridge prediction to last actual value
-    const lastActualValue = dataLength > 0 ? data[data.length - 1].value : null;
-    const predictedValues = dataLength > 0 && predictionsLength > 0 ? [
-      ...new Array(bridgeLength).fill(null),
-      lastActualValue, // Connect point
-      ...predictions.slice(0, 100).map((p) => p.value), // Limit predictions
-    ] : [];
-
-    // Scatter plot uses {x, y} format instead of labels
-    if (chartType === 'scatter') {
-      const datasets: any[] = [
-        {
-          label: 'Actual Data',
-          data: data.map((point, idx) => ({ x: idx, y: point.value })),
-          borderColor: primaryColor,
-          backgroundColor: primaryColor,
-          borderWidth: 2,
-          pointRadius: 6,
-          pointHoverRadius: 8,
-        },
-      ];
+    series.forEach((s, seriesIndex) => {
+      const color = getSeriesColor(seriesIndex, primaryColor);
+      const predictionColor = multiSeries ? color : secondaryColor;
+      const seriesPredictions = predictionsBySeries.get(s.id) ?? [];
+      const lastPoint = s.points.length > 0 ? s.points[s.points.length - 1] : null;
 
-      // Add anomaly points for scatter
-      const anomalyScatterPoints = data
-        .map((point, idx) => (point.isAnomaly ? { x: idx, y: point.value } : null))
-        .filter((p) => p !== null);
+      const actualLabel = multiSeries ? s.name : 'Actual Data';
+      const anomalyLabel = multiSeries ? `${s.name} anomalies` : 'Anomalies';
+      const predictionLabel = multiSeries ? `${s.name} predictions` : 'AI Predictions';
 
-      if (anomalyScatterPoints.length > 0) {
-        datasets.push({
-          label: 'Anomalies',
-          data: anomalyScatterPoints,
-          borderColor: anomalyColor,
-          backgroundColor: anomalyColor,
-          borderWidth: 2,
-          pointRadius: 10,
-          pointHoverRadius: 12,
-          pointStyle: 'triangle',
-        });
-      }
+      // Every dataset is plotted as {x: time, y} on the time axis
+      const toXY = (point: { timestamp: number; value: number }) => ({ x: point.timestamp, y: point.value });
 
-      // Add predictions for scatter
-      if (predictionsLength > 0) {
+      if (isScatter) {
         datasets.push({
-          label: 'AI Predictions',
-          data: predictions.slice(0, 100).map((p, idx) => ({ 
-            x: dataLength + idx, 
-            y: p.value 
-          })),
-          borderColor: secondaryColor,
-          backgroundColor: secondaryColor
-            .replace(')', ', 0.5)')
-            .replace('rgb', 'rgba'),
+          kind: 'actual',
+          label: actualLabel,
+          data: s.points.map(toXY),
+          borderColor: color,
+          backgroundColor: color,
           borderWidth: 2,
-          pointRadius: 7,
-          pointHoverRadius: 9,
-          pointStyle: 'cross',
+          pointRadius: 6,
+          pointHoverRadius: 8,
         });
+
+        // Add anomaly points for scatter
+        const anomalyScatterPoints = s.points.filter((point) => point.isAnomaly).map(toXY);
+
+        if (anomalyScatterPoints.length > 0) {
+          datasets.push({
+            kind: 'anomaly',
+            label: anomalyLabel,
+            data: anomalyScatterPoints,
+            borderColor: anomalyColor,
+            backgroundColor: anomalyColor,
+            borderWidth: 2,
+            pointRadius: 10,
+            pointHoverRadius: 12,
+            pointStyle: 'triangle',
+          });
+        }
+
+        // Add predictions for scatter
+        if (seriesPredictions.length > 0) {
+          datasets.push({
+            kind: 'prediction',
+            label: predictionLabel,
+            data: seriesPredictions.map(toXY),
+            borderColor: predictionColor,
+            backgroundColor: predictionColor.replace(')', ', 0.5)').replace('rgb', 'rgba'),
+            borderWidth: 2,
+            pointRadius: 7,
+            pointHoverRadius: 9,
+            pointStyle: 'cross',
+          });
+        }
+        return;
       }
 
-      return { datasets };
-    }
+      // For line, bar, area charts
+      const anomalyPoints = s.points.filter((point) => point.isAnomaly).map(toXY);
 
-    // For line, bar, area charts
-    const datasets: any[] = [
-      {
-        label: 'Actual Data',
-        data: predictionsLength > 0 ? [...values, ...new Array(predictionsLength).fill(null)] : values,
-        borderColor: primaryColor,
+      datasets.push({
+        kind: 'actual',
+        label: actualLabel,
+        data: s.points.map(toXY),
+        borderColor: color,
         backgroundColor: (ctx: any) => {
           // Gradient fill for "area" only
           if (chartType !== 'area') {
-            return primaryColor;
+            return color;
           }
           const chart = ctx.chart;
           const { ctx: canvasCtx, chartArea } = chart;
           if (!chartArea) {
-            return primaryColor.replace(')', ', 0.18)').replace('rgb', 'rgba');
+            return color.replace(')', ', 0.18)').replace('rgb', 'rgba');
           }
           const g = canvasCtx.createLinearGradient(0, chartArea.top, 0, chartArea.bottom);
-          g.addColorStop(0, primaryColor.replace(')', ', 0.35)').replace('rgb', 'rgba'));
+          g.addColorStop(0, color.replace(')', ', 0.35)').replace('rgb', 'rgba'));
           g.addColorStop(1, 'rgba(0,0,0,0)');
           return g;
         },
@@ -203,53 +244,105 @@ export const AdvancedChart: React.FC<Props> = ({
         borderCapStyle: 'round',
         borderJoinStyle: 'round',
         spanGaps: false,
-      },
-    ];
-
-    // Add anomaly points
-    if (anomalyPoints.some((p) => p !== null)) {
-      datasets.push({
-        label: 'Anomalies',
-        data: predictionsLength > 0 ? [...anomalyPoints, ...new Array(predictionsLength).fill(null)] : anomalyPoints,
-        borderColor: anomalyColor,
-        backgroundColor: anomalyColor,
-        borderWidth: 2,
-        pointRadius: 8,
-        pointHoverRadius: 10,
-        pointStyle: 'triangle',
-        showLine: false,
       });
-    }
 
-    // Add predictions - connected to last actual value
-    if (predictionsLength > 0 && predictedValues.length > 0) {
-      datasets.push({
-        label: 'AI Predictions',
-        data: predictedValues,
-        borderColor: secondaryColor,
-        backgroundColor: secondaryColor.replace(')', ', 0.12)').replace('rgb', 'rgba'),
-        borderWidth: 2.5,
-        borderDash: [7, 5],
-        fill: false,
-        tension: 0.42,
-        pointRadius: 4.5,
-        pointHoverRadius: 7,
-        pointBorderWidth: 0,
-        pointHoverBorderWidth: 0,
-        borderCapStyle: 'round',
-        borderJoinStyle: 'round',
-        spanGaps: false,
-      });
-    }
+      // Add anomaly points
+      if (anomalyPoints.length > 0) {
+        datasets.push({
+          kind: 'anomaly',
+          label: anomalyLabel,
+          data: anomalyPoints,
+          borderColor: anomalyColor,
+          backgroundColor: anomalyColor,
+          borderWidth: 2,
+          pointRadius: 8,
+          pointHoverRadius: 10,
+          pointStyle: 'triangle',
+          showLine: false,
+        });
+      }
+
+      // Add 95% and 80% prediction bands (line/area only) - each upper edge fills down to its lower edge
+      if (chartType !== 'bar' && seriesPredictions.length > 0 && lastPoint) {
+        const bands: Array<{ level: '95%' | '80%'; key: 'interval95' | 'interval80'; alpha: number }> = [
+          { level: '95%', key: 'interval95', alpha: 0.12 },
+          { level: '80%', key: 'interval80', alpha: 0.22 },
+        ];
 
-    return {
-      labels: allLabels,
-      datasets,
-    };
+        for (const band of bands) {
+          if (!seriesPredictions.some((p) => p[band.key])) {
+            continue;
+          }
+
+          // Both edges start at the last actual value
+          const lower = [toXY(lastPoint)];
+          const upper = [toXY(lastPoint)];
+          for (const p of seriesPredictions) {
+            const interval = p[band.key];
+            if (interval) {
+              lower.push({ x: p.timestamp, y: interval.lower });
+              upper.push({ x: p.timestamp, y: interval.upper });
+            }
+          }
+
+          const bandStyle = {
+            kind: 'band',
+            borderWidth: 0,
+            pointRadius: 0,
+            pointHoverRadius: 0,
+            tension: 0.42,
+            spanGaps: true,
+          };
+          datasets.push({
+            ...bandStyle,
+            label: `${predictionLabel} ${band.level} upper`,
+            data: upper,
+            borderColor: 'transparent',
+            backgroundColor: predictionColor.replace(')', `, ${band.alpha})`).replace('rgb', 'rgba'),
+            fill: '+1',
+          });
+          datasets.push({
+            ...bandStyle,
+            label: `${predictionLabel} ${band.level} lower`,
+            data: lower,
+            borderColor: 'transparent',
+            backgroundColor: 'transparent',
+            fill: false,
+          });
+        }
+      }
+
+      // Add predictions - connected to last actual value
+      if (seriesPredictions.length > 0 && lastPoint) {
+        const predictedValues = [toXY(lastPoint), ...seriesPredictions.map(toXY)]; // Connect point
+
+        datasets.push({
+          kind: 'prediction',
+          label: predictionLabel,
+          data: predictedValues,
+          borderColor: predictionColor,
+          backgroundColor: predictionColor.replace(')', ', 0.12)').replace('rgb', 'rgba'),
+          borderWidth: 2.5,
+          borderDash: [7, 5],
+          fill: false,
+          tension: 0.42,
+          pointRadius: 4.5,
+          pointHoverRadius: 7,
+          pointBorderWidth: 0,
+          pointHoverBorderWidth: 0,
+          borderCapStyle: 'round',
+          borderJoinStyle: 'round',
+          spanGaps: true,
+        });
+      }
+    });
+
+    return { datasets };
   }, [
-    data,
+    series,
     predictions,
     chartType,
+    isScatter,
     primaryColor,
     secondaryColor,
     anomalyColor,
@@ -260,7 +353,9 @@ export const AdvancedChart: React.FC<Props> = ({
       responsive: true,
       maintainAspectRatio: false,
       interaction: {
-        mode: 'index' as const,
+        // Series may be sampled at different times, so match points by x position rather than index
+        mode: 'nearest' as const,
+        axis: 'x' as const,
         intersect: false,
       },
       layout: {
@@ -290,6 +385,8 @@ export const AdvancedChart: React.FC<Props> = ({
             boxWidth: 10,
             boxHeight: 10,
             padding: 14,
+            // Forecast bands are explained by their prediction line; keep them out of the legend
+            filter: (item: any, data: any) => data?.datasets?.[item.datasetIndex]?.kind !== 'band',
             generateLabels: (chart: any) => {
               const defaultGenerator =
                 ChartJS.defaults?.plugins?.legend?.labels?.generateLabels;
@@ -304,11 +401,11 @@ export const AdvancedChart: React.FC<Props> = ({
 
                 let suffix = '';
                 const label = String(ds.label ?? item.text ?? '');
-                if (label === 'Actual Data') {
+                if (ds.kind === 'actual') {
                   suffix = ` • n=${count}${typeof last === 'number' ? ` • last=${last.toFixed(2)}` : ''}`;
-                } else if (label === 'Anomalies') {
+                } else if (ds.kind === 'anomaly') {
                   suffix = ` • n=${count}`;
-                } else if (label === 'AI Predictions') {
+                } else if (ds.kind === 'prediction') {
                   suffix = ` • steps=${count}${typeof last === 'number' ? ` • last=${last.toFixed(2)}` : ''}`;
                 }
 
@@ -332,6 +429,7 @@ export const AdvancedChart: React.FC<Props> = ({
           padding: 12,
           cornerRadius: 10,
           displayColors: true,
+          filter: (item: any) => item.dataset?.kind !== 'band',
           titleFont: {
             family: 'Inter, ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial',
             weight: '600',
@@ -356,8 +454,21 @@ export const AdvancedChart: React.FC<Props> = ({
       },
       scales: {
         x: {
-          type: isScatter ? ('linear' as const) : ('category' as const),
+          type: 'time' as const,
           display: true,
+          offset: chartType === 'bar',
+          adapters: {
+            date: { zone: toLuxonZone(timeZone) },
+          },
+          time: {
+            tooltipFormat: spansDays ? 'yyyy-MM-dd HH:mm:ss' : 'HH:mm:ss',
+            displayFormats: {
+              second: 'HH:mm:ss',
+              minute: 'HH:mm',
+              hour: 'HH:mm',
+              day: 'MMM d',
+            },
+          },
           grid: {
             color: 'rgba(255, 255, 255, 0.07)',
             tickColor: 'rgba(255, 255, 255, 0.07)',
@@ -366,6 +477,9 @@ export const AdvancedChart: React.FC<Props> = ({
             color: 'rgba(255,255,255,0.75)',
             maxRotation: isScatter ? 0 : 35,
             minRotation: 0,
+            autoSkip: true,
+            // Day boundaries are labelled with the date
+            major: { enabled: true },
             font: {
               family: 'Inter, ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Arial',
               size: 11,
@@ -404,6 +518,9 @@ export const AdvancedChart: React.FC<Props> = ({
       enableAnimations,
       animationDuration,
       isScatter,
+      chartType,
+      timeZone,
+      spansDays,
     ]
   );
 
@@ -413,6 +530,14 @@ export const AdvancedChart: React.FC<Props> = ({
       height: 100%;
       position: relative;
     `,
+    downsampleNote: css`
+      position: absolute;
+      right: 4px;
+      bottom: 0;
+      font-size: 10px;
+      color: rgba(255, 255, 255, 0.5);
+      pointer-events: none;
+    `,
   };
 
   const ChartComponent =
@@ -421,6 +546,11 @@ export const AdvancedChart: React.FC<Props> = ({
   return (
     <div className={styles.container}>
       <ChartComponent data={chartData} options={options} />
+      {renderedPoints < totalPoints && (
+        <div className={styles.downsampleNote}>
+          Showing {renderedPoints} of {totalPoints} points (downsampled)
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,27 @@
+import React, { useState } from 'react';
+import { StandardEditorProps } from '@grafana/data';
+import { SecretInput } from '@grafana/ui';
+
+// Write-only text option: once saved, the editor shows "configured" with a Reset button
+// instead of the value. The value itself is still stored as plain text in the panel JSON.
+export const SecretEditor: React.FC<StandardEditorProps<string>> = ({ value, onChange, item }) => {
+  const [draft, setDraft] = useState('');
+
+  const save = () => {
+    if (draft !== '') {
+      onChange(draft);
+      setDraft('');
+    }
+  };
+
+  return (
+    <SecretInput
+      isConfigured={Boolean(value)}
+      value={draft}
+      placeholder={item.settings?.placeholder}
+      onChange={(event: React.ChangeEvent<HTMLInputElement>) => setDraft(event.currentTarget.value)}
+      onBlur={save}
+      onReset={() => onChange('')}
+    />
+  );
+};
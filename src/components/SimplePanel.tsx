@@ -1,28 +1,48 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { PanelProps } from '@grafana/data';
-import { SimpleOptions, DataPoint, AnomalyResult, TrendPrediction, AIInsight } from 'types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { PanelProps, LoadingState, dateTimeFormat } from '@grafana/data';
+import { SimpleOptions, DataPoint, AnomalyResult, TrendPrediction, AIInsight, TimeSeries } from 'types';
 import { css, cx } from '@emotion/css';
 import { useStyles2 } from '@grafana/ui';
 import { PanelDataErrorView } from '@grafana/runtime';
 import { AdvancedChart } from './AdvancedChart';
 import { StatsPanel } from './StatsPanel';
 import { AIInsightsPanel } from './AIInsightsPanel';
+import { generateAIInsights, calculateStats } from '../utils/aiAnalysis';
+import { AnalysisClient, createAnalysisClient } from '../utils/analysisWorker';
+import { AnalysisProgress, labelInsights } from '../utils/analysisPipeline';
+import { toFloat64Array } from '../utils/streamingStats';
+import { extractTimeSeries } from '../utils/dataFrames';
+import { connectDataStream, fetchDataFromUrl, LoadOptions, parseDataFile, StreamStatus } from '../utils/dataLoader';
+import { createLiveBuffer } from '../utils/liveBuffer';
+import { DetectedFormat, FORMAT_LABELS } from '../utils/formatDetection';
+import { hasIssues, ParseDiagnostics } from '../utils/parseDiagnostics';
 import {
-  detectAnomaliesZScore,
-  detectAnomaliesIQR,
-  detectAnomaliesML,
-  predictTrend,
-  generateAIInsights,
-  calculateStats,
-} from '../utils/aiAnalysis';
-import {
-  extractTimeSeriesData,
-  extractNumericValues,
-} from '../utils/dataProcessing';
-import { fetchDataFromUrl } from '../utils/dataLoader';
+  ACCEPTED_FILE_TYPES,
+  canPersistFile,
+  formatFileSize,
+  fromPersistedFile,
+  LocalDataFile,
+  MAX_PERSISTED_FILE_BYTES,
+  readLocalFile,
+  toPersistedFile,
+} from '../utils/localFile';
 
 interface Props extends PanelProps<SimpleOptions> {}
 
+// Live streams re-render the panel at most this often
+const LIVE_FLUSH_MS = 1000;
+// Forecasts and insights of live data are recomputed in the background at most this often
+const LIVE_ANALYSIS_MS = 30000;
+
+// $__from / $__to in any of Grafana's variable syntaxes, e.g. ${__from:date:seconds}
+const TIME_RANGE_VARIABLES = /\$__(?:from|to)\b|\$\{__(?:from|to)(?::[^}]*)?\}|\[\[__(?:from|to)(?::[^\]]*)?\]\]/g;
+
+const STREAM_STATUS_LABELS: Record<StreamStatus, string> = {
+  connecting: 'connecting',
+  open: 'connected',
+  reconnecting: 'reconnecting',
+};
+
 const getStyles = (options: SimpleOptions) => {
   return {
     wrapper: css`
@@ -182,95 +202,378 @@ const getStyles = (options: SimpleOptions) => {
   };
 };
 
-export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fieldConfig, id }) => {
+export const SimplePanel: React.FC<Props> = ({
+  options,
+  data,
+  width,
+  height,
+  fieldConfig,
+  id,
+  timeZone,
+  replaceVariables,
+  onOptionsChange,
+}) => {
   const styles = useStyles2(() => getStyles(options));
   
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
   const [dataLoading, setDataLoading] = useState(false);
   const [dataError, setDataError] = useState<string>('');
+  const [dataDiagnostics, setDataDiagnostics] = useState<ParseDiagnostics | null>(null);
+  const [detectedFormat, setDetectedFormat] = useState<DetectedFormat | null>(null);
+  const [dataUpdatedAt, setDataUpdatedAt] = useState<number | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus | null>(null);
   const [anomalies, setAnomalies] = useState<AnomalyResult[]>([]);
   const [predictions, setPredictions] = useState<TrendPrediction[]>([]);
   const [insights, setInsights] = useState<AIInsight[]>([]);
-  const [processedData, setProcessedData] = useState<DataPoint[]>([]);
-  const [externalData, setExternalData] = useState<DataPoint[]>([]);
+  const [analysisNotices, setAnalysisNotices] = useState<string[]>([]);
+  const [processedData, setProcessedData] = useState<TimeSeries[]>([]);
+  const [externalData, setExternalData] = useState<TimeSeries[]>([]);
+  const [droppedFile, setDroppedFile] = useState<LocalDataFile | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const analysisClient = useRef<AnalysisClient | null>(null);
+  // Background analysis of live data: the run in flight, and when the last one started
+  const liveAnalysis = useRef<AbortController | null>(null);
+  const liveAnalysisAt = useRef(0);
+  const fileInput = useRef<HTMLInputElement | null>(null);
 
-  // Load external data if enabled (CSV, JSON, or SQL)
+  // A file dropped in this session wins over one saved with the dashboard, which wins over the URL
+  const savedFile = useMemo(
+    () => (options.persistUploadedFile && options.uploadedFile ? fromPersistedFile(options.uploadedFile) : null),
+    [options.persistUploadedFile, options.uploadedFile]
+  );
+
+  // Turning saving off removes the stored file from the dashboard JSON as well
   useEffect(() => {
-    const loadExternalData = async () => {
-      if (options.enableDataUpload && options.dataUrl) {
-        setDataLoading(true);
-        setDataError('');
+    if (!options.persistUploadedFile && options.uploadedFile) {
+      onOptionsChange({ ...options, uploadedFile: undefined });
+    }
+  }, [options, onOptionsChange]);
+
+  const liveMode = options.dataSourceMode === 'sse' || options.dataSourceMode === 'websocket';
+  const dataFile = liveMode ? null : droppedFile ?? savedFile;
+  const hasDataSource = Boolean(dataFile || options.dataUrl);
+  // Dashboard variables ($host, $__from, $__to, ...) filled in with their current, percent-encoded values
+  const dataUrl = options.dataUrl ? replaceVariables(options.dataUrl, undefined, 'percentencode') : '';
+  // The same URL without the time range: when this changes (another template or $host) the data is
+  // loaded from scratch, while a change of the time range alone refreshes the data on screen
+  const dataSourceUrl = options.dataUrl
+    ? replaceVariables(options.dataUrl.replace(TIME_RANGE_VARIABLES, ''), undefined, 'percentencode')
+    : '';
+
+  // Terminate this panel's analysis worker when the panel goes away
+  useEffect(() => {
+    return () => analysisClient.current?.dispose();
+  }, []);
+
+  // Re-fetches the URL without resetting the panel; set by the load effect below
+  const refreshExternalData = useRef<(() => void) | null>(null);
+
+  // Loads read the URL from here, so a new time range is fetched as a refresh of the current data
+  const currentDataUrl = useRef(dataUrl);
+  useEffect(() => {
+    if (currentDataUrl.current !== dataUrl) {
+      currentDataUrl.current = dataUrl;
+      refreshExternalData.current?.();
+    }
+  }, [dataUrl]);
+
+  // Load external data if enabled, from a dropped file or the URL. URLs are re-fetched
+  // every Refresh Interval, on dashboard refreshes and when the time range changes the URL;
+  // a newer load aborts one in flight. A variable change that alters the URL starts a new load.
+  useEffect(() => {
+    let controller: AbortController | null = null;
+    let inFlightUrl: string | null = null;
+
+    const loadExternalData = async (refresh: boolean) => {
+      const url = currentDataUrl.current;
+      // A request for the same URL already in flight answers this refresh too
+      if (refresh && url === inFlightUrl) {
+        return;
+      }
+      if (options.enableDataUpload && (dataFile || (!liveMode && url))) {
+        controller?.abort();
+        const current = new AbortController();
+        controller = current;
+        inFlightUrl = dataFile ? null : url;
+
+        // Refreshes keep the current data on screen until the new data arrives; a new load (another
+        // URL, e.g. a different $host, or other parse options) drops the previous data first
+        if (!refresh) {
+          setExternalData([]);
+          setDataLoading(true);
+          setDataError('');
+          setDataDiagnostics(null);
+          setDetectedFormat(null);
+        }
         try {
-          const dataPoints = await fetchDataFromUrl(options.dataUrl, options.dataFormat);
-          
-          if (dataPoints.length === 0) {
-            setDataError('No data loaded. Check URL and format.');
+          const loadOptions: LoadOptions = {
+            csv: {
+              delimiter: options.csvDelimiter,
+              header: options.csvHeader,
+              timeColumn: options.csvTimeColumn,
+              valueColumns: options.csvValueColumns,
+            },
+            json: {
+              recordsPath: options.jsonRecordsPath,
+              timePath: options.jsonTimePath,
+              valuePaths: options.jsonValuePaths,
+            },
+            sql: {
+              query: options.sqlQuery,
+            },
+            time: {
+              format: options.timestampFormat,
+              pattern: options.timestampPattern,
+              timeZone: options.sourceTimeZone,
+            },
+            request: {
+              method: options.requestMethod,
+              headers: options.requestHeaders,
+              body: options.requestBody,
+              auth: options.requestAuth,
+              username: options.requestUsername,
+              secret: options.requestSecret,
+              withCredentials: options.requestWithCredentials,
+              urlTemplate: options.dataUrl,
+            },
+          };
+          const { series: loadedSeries, diagnostics, detected, notModified } = dataFile
+            ? await parseDataFile(dataFile.bytes, dataFile.name, dataFile.type || null, options.dataFormat, loadOptions)
+            : await fetchDataFromUrl(url, options.dataFormat, loadOptions, current.signal);
+          if (controller !== current) {
+            return;
+          }
+
+          setDataUpdatedAt(Date.now());
+          // Unchanged on the server: keep the current series so the analysis doesn't rerun
+          if (refresh && notModified) {
+            return;
           }
-          setExternalData(dataPoints);
+
+          const source = dataFile ? 'file' : 'URL';
+          setDataError(
+            loadedSeries.length > 0
+              ? ''
+              : detected
+              ? `No data loaded as ${FORMAT_LABELS[detected.format]} (detected from ${detected.reason}). Check ${source} or pick the format.`
+              : `No data loaded. Check ${source} and format.`
+          );
+          setExternalData(loadedSeries);
+          setDataDiagnostics(diagnostics);
+          setDetectedFormat(detected ?? null);
         } catch (error) {
+          if (controller !== current) {
+            return;
+          }
           const errorMsg = error instanceof Error ? error.message : String(error);
-          setDataError(`Failed to load data: ${errorMsg}`);
-          setExternalData([]);
+          // A failed refresh keeps the last good data
+          setDataError(`${refresh ? 'Failed to refresh data' : 'Failed to load data'}: ${errorMsg}`);
+          if (!refresh) {
+            setExternalData([]);
+          }
         } finally {
-          setDataLoading(false);
+          if (controller === current) {
+            inFlightUrl = null;
+            setDataLoading(false);
+          }
         }
       } else {
         setExternalData([]);
         setDataError('');
+        setDataDiagnostics(null);
+        setDetectedFormat(null);
+        setDataUpdatedAt(null);
       }
     };
-    loadExternalData();
-  }, [options.enableDataUpload, options.dataUrl, options.dataFormat]);
+    loadExternalData(false);
 
-  // Extract and process data with limit for performance
-  const numericValues = useMemo(() => {
-    let values;
-    // Priority: If external data is loaded, use it. Otherwise, use Grafana data
-    if (options.enableDataUpload && options.dataUrl && externalData.length > 0) {
-      values = externalData.map(p => p.value);
-    } else {
-      // Use Grafana datasource (fallback)
-      values = extractNumericValues(data.series);
+    // Dropped files don't change, so only URLs are polled
+    const pollUrl = options.enableDataUpload && !dataFile && !liveMode && currentDataUrl.current;
+    const timer =
+      pollUrl && options.dataRefreshInterval > 0
+        ? setInterval(() => loadExternalData(true), options.dataRefreshInterval * 1000)
+        : undefined;
+    refreshExternalData.current = pollUrl ? () => loadExternalData(true) : null;
+
+    return () => {
+      clearInterval(timer);
+      controller?.abort();
+      controller = null;
+      refreshExternalData.current = null;
+    };
+  }, [
+    options.enableDataUpload,
+    options.dataUrl,
+    dataSourceUrl,
+    dataFile,
+    liveMode,
+    options.dataFormat,
+    options.csvDelimiter,
+    options.csvHeader,
+    options.csvTimeColumn,
+    options.csvValueColumns,
+    options.jsonRecordsPath,
+    options.jsonTimePath,
+    options.jsonValuePaths,
+    options.sqlQuery,
+    options.timestampFormat,
+    options.timestampPattern,
+    options.sourceTimeZone,
+    options.requestMethod,
+    options.requestHeaders,
+    options.requestBody,
+    options.requestAuth,
+    options.requestUsername,
+    options.requestSecret,
+    options.requestWithCredentials,
+    options.dataRefreshInterval,
+  ]);
+
+  // Live streams: each message goes into per-series ring buffers, which flag Z-Score / IQR
+  // anomalies as points arrive; the panel re-renders with the buffered points every LIVE_FLUSH_MS
+  useEffect(() => {
+    if (!options.enableDataUpload || !liveMode || !dataUrl) {
+      return;
+    }
+
+    let disconnect: (() => void) | null = null;
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    let latestDiagnostics: ParseDiagnostics | null = null;
+
+    // ML detection needs the whole series, so live data falls back to Z-Score for it
+    const detectAnomalies = options.visualizationMode === 'ai-analysis' || options.enableAnomalyDetection;
+    const buffer = createLiveBuffer(
+      options.streamBufferSize,
+      detectAnomalies
+        ? { method: options.anomalyMethod === 'iqr' ? 'iqr' : 'zscore', sensitivity: options.anomalySensitivity }
+        : null
+    );
+
+    const flush = () => {
+      flushTimer = undefined;
+      const snapshot = buffer.snapshot();
+      setExternalData(snapshot.series);
+      setAnomalies(snapshot.anomalies);
+      setDataDiagnostics(latestDiagnostics && { ...latestDiagnostics });
+      setDataUpdatedAt(Date.now());
+    };
+
+    const startStream = () => {
+      try {
+        disconnect = connectDataStream(
+          dataUrl,
+          options.dataSourceMode === 'sse' ? 'sse' : 'websocket',
+          {
+            json: { timePath: options.jsonTimePath, valuePaths: options.jsonValuePaths },
+            time: {
+              format: options.timestampFormat,
+              pattern: options.timestampPattern,
+              timeZone: options.sourceTimeZone,
+            },
+          },
+          {
+            onData: (loadedSeries, diagnostics) => {
+              buffer.append(loadedSeries);
+              latestDiagnostics = diagnostics;
+              flushTimer = flushTimer ?? setTimeout(flush, LIVE_FLUSH_MS);
+            },
+            onStatus: (status) => {
+              setStreamStatus(status);
+              setDataError(status === 'reconnecting' ? 'Live stream disconnected; reconnecting...' : '');
+            },
+          }
+        );
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        setDataError(`Failed to connect: ${errorMsg}`);
+      }
+    };
+    startStream();
+
+    return () => {
+      disconnect?.();
+      clearTimeout(flushTimer);
+      setStreamStatus(null);
+    };
+  }, [
+    options.enableDataUpload,
+    liveMode,
+    options.dataSourceMode,
+    dataUrl,
+    options.jsonTimePath,
+    options.jsonValuePaths,
+    options.timestampFormat,
+    options.timestampPattern,
+    options.sourceTimeZone,
+    options.streamBufferSize,
+    options.visualizationMode,
+    options.enableAnomalyDetection,
+    options.anomalyMethod,
+    options.anomalySensitivity,
+  ]);
+
+  // New query results mean the dashboard refreshed (or its time range changed); re-fetch the URL with it
+  const lastPanelData = useRef(data);
+  useEffect(() => {
+    if (data !== lastPanelData.current && data.state !== LoadingState.Loading) {
+      lastPanelData.current = data;
+      if (options.refreshWithDashboard) {
+        refreshExternalData.current?.();
+      }
     }
-    // Limit data points for performance (max 1000)
-    return values.length > 1000 ? values.slice(-1000) : values;
-  }, [data.series, externalData, options.enableDataUpload, options.dataUrl]);
+  }, [data, options.refreshWithDashboard]);
 
-  const timeSeriesData = useMemo(() => {
-    let tsData;
+  // Extract one series per numeric field (full resolution; only the chart is downsampled)
+  const series = useMemo(() => {
+    let result: TimeSeries[];
     // Priority: If external data is loaded, use it. Otherwise, use Grafana data
-    if (options.enableDataUpload && options.dataUrl && externalData.length > 0) {
-      tsData = externalData;
+    if (options.enableDataUpload && hasDataSource && externalData.length > 0) {
+      result = externalData;
     } else {
       // Use Grafana datasource (fallback)
-      tsData = extractTimeSeriesData(data.series);
+      result = extractTimeSeries(data.series);
     }
-    // Limit data points for performance (max 1000)
-    return tsData.length > 1000 ? tsData.slice(-1000) : tsData;
-  }, [data.series, externalData, options.enableDataUpload, options.dataUrl]);
+    return result;
+  }, [data.series, externalData, options.enableDataUpload, hasDataSource]);
+
+  const seriesStats = useMemo(() => {
+    return series
+      .map((s) => ({ series: s, stats: calculateStats(toFloat64Array(s.points)) }))
+      .filter((entry): entry is { series: TimeSeries; stats: NonNullable<ReturnType<typeof calculateStats>> } =>
+        entry.stats !== null
+      );
+  }, [series]);
+
+  const seriesNames = useMemo(() => new Map(series.map((s) => [s.id, s.name])), [series]);
+  const multiSeries = series.length > 1;
 
-  const stats = useMemo(() => {
-    return calculateStats(numericValues);
-  }, [numericValues]);
+  const predictionGroups = useMemo(() => {
+    return series
+      .map((s) => ({ id: s.id, name: s.name, predictions: predictions.filter((p) => p.seriesId === s.id) }))
+      .filter((group) => group.predictions.length > 0);
+  }, [series, predictions]);
 
   // Run AI analysis with debouncing
   useEffect(() => {
-    // Safety check: need at least 2 valid data points
-    if (!numericValues || numericValues.length < 2 || !Array.isArray(numericValues)) {
-      setInsights([]);
-      setAnomalies([]);
-      setPredictions([]);
-      setProcessedData([]);
-      return;
-    }
-    
-    // Safety check: validate all values are numbers
-    const validValues = numericValues.every(v => typeof v === 'number' && !isNaN(v) && isFinite(v));
-    if (!validValues) {
-      setInsights([]);
-      setAnomalies([]);
-      setPredictions([]);
-      return;
+    // Safety check: need at least 2 valid data points, all of them finite numbers
+    const analyzable = series.filter(
+      (s) => s.points.length >= 2 && s.points.every((p) => typeof p.value === 'number' && isFinite(p.value))
+    );
+    // Results that need no worker are applied on the next tick rather than in the effect body
+    const applySoon = (apply: () => void) => {
+      const timeoutId = setTimeout(apply, 0);
+      return () => clearTimeout(timeoutId);
+    };
+
+    if (analyzable.length === 0) {
+      return applySoon(() => {
+        setInsights([]);
+        setAnomalies([]);
+        setPredictions([]);
+        setAnalysisNotices([]);
+        setProcessedData([]);
+      });
     }
 
     // Force AI features when in AI Analysis mode
@@ -281,117 +584,179 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
 
     // Always generate basic insights if enabled
     if (shouldRunAIInsights && !shouldRunAnomalyDetection && !shouldRunTrendPrediction) {
-      const basicInsights = generateAIInsights(numericValues, [], []);
-      setInsights(basicInsights);
-      setProcessedData(timeSeriesData);
-      return;
+      const basicInsights = analyzable.flatMap((s) =>
+        labelInsights(generateAIInsights(s.points.map((p) => p.value), [], []), s, multiSeries)
+      );
+      return applySoon(() => {
+        setInsights(basicInsights);
+        setAnalysisNotices([]);
+        setProcessedData(series);
+      });
     }
 
     // Skip heavy AI if nothing enabled
     if (!shouldRunAnomalyDetection && !shouldRunTrendPrediction && !shouldRunAIInsights) {
-      setAnomalies([]);
-      setPredictions([]);
-      setInsights([]);
-      setProcessedData(timeSeriesData);
+      return applySoon(() => {
+        setAnomalies([]);
+        setPredictions([]);
+        setAnalysisNotices([]);
+        setInsights([]);
+        setProcessedData(series);
+      });
+    }
+
+    // Live data changes every flush: let a run in flight finish (aborting one restarts the worker)
+    // and start the next one LIVE_ANALYSIS_MS after it
+    if (liveMode && liveAnalysis.current && !liveAnalysis.current.signal.aborted) {
       return;
     }
 
-    // Debounce heavy computations
+    // Debounce heavy computations; the analysis itself runs in a Web Worker
+    const controller = new AbortController();
+    const delay = liveMode ? Math.max(500, liveAnalysisAt.current + LIVE_ANALYSIS_MS - Date.now()) : 500;
     const timeoutId = setTimeout(async () => {
-      setLoading(true);
+      // Live re-analysis runs in the background, without the blocking overlay
+      if (liveMode) {
+        liveAnalysis.current = controller;
+        liveAnalysisAt.current = Date.now();
+      } else {
+        setLoading(true);
+        setProgress(null);
+      }
 
       try {
-        let detectedAnomalies: AnomalyResult[] = [];
-
-        // Anomaly detection (lighter algorithms only)
-        if (shouldRunAnomalyDetection) {
-          switch (options.anomalyMethod) {
-            case 'zscore':
-              detectedAnomalies = detectAnomaliesZScore(
-                numericValues,
-                options.anomalySensitivity
-              );
-              break;
-            case 'iqr':
-              detectedAnomalies = detectAnomaliesIQR(
-                numericValues,
-                options.anomalySensitivity
-              );
-              break;
-            case 'ml':
-              // Only run ML if data is not too large
-              if (numericValues.length <= 100) {
-                detectedAnomalies = await detectAnomaliesML(
-                  numericValues,
-                  options.anomalySensitivity / 10
-                );
-              } else {
-                // Fallback to Z-Score for large datasets
-                detectedAnomalies = detectAnomaliesZScore(
-                  numericValues,
-                  options.anomalySensitivity
-                );
-              }
-              break;
-          }
-        }
+        analysisClient.current = analysisClient.current ?? createAnalysisClient();
+        const result = await analysisClient.current.run(
+          analyzable,
+          {
+            // Live data is flagged as it arrives (see the stream effect)
+            runAnomalyDetection: shouldRunAnomalyDetection && !liveMode,
+            anomalyMethod: options.anomalyMethod,
+            anomalySensitivity: options.anomalySensitivity,
+            runTrendPrediction: shouldRunTrendPrediction,
+            forecastMethod: options.forecastMethod,
+            predictionSteps: options.predictionSteps,
+            runAIInsights: shouldRunAIInsights,
+          },
+          { signal: controller.signal, onProgress: liveMode ? undefined : setProgress }
+        );
 
-        setAnomalies(detectedAnomalies);
+        if (!liveMode) {
+          setAnomalies(result.anomalies);
+        }
+        setAnalysisNotices(
+          liveMode && shouldRunAnomalyDetection && options.anomalyMethod === 'ml'
+            ? ['ML anomaly detection needs the whole series; live data is checked with Z-Score', ...result.notices]
+            : result.notices
+        );
 
         // Mark anomalies in data
-        const dataWithAnomalies = timeSeriesData.map((point, idx) => ({
-          ...point,
-          isAnomaly: detectedAnomalies.some((a) => a.index === idx),
-        }));
-        setProcessedData(dataWithAnomalies);
-
-        // Trend prediction (only for small datasets)
-        let trendPredictions: TrendPrediction[] = [];
-        if (shouldRunTrendPrediction && numericValues.length >= 5 && numericValues.length <= 100) {
-          trendPredictions = await predictTrend(
-            numericValues,
-            Math.min(options.predictionSteps, 10) // Limit predictions
-          );
+        const anomalyIndexes = new Map<string, Set<number>>();
+        for (const anomaly of result.anomalies) {
+          const key = anomaly.seriesId ?? '';
+          anomalyIndexes.set(key, (anomalyIndexes.get(key) ?? new Set<number>()).add(anomaly.index));
         }
-        setPredictions(trendPredictions);
+        const dataWithAnomalies = series.map((s) => {
+          const indexes = anomalyIndexes.get(s.id);
+          return {
+            ...s,
+            points: s.points.map((point: DataPoint, idx) => ({
+              ...point,
+              isAnomaly: indexes ? indexes.has(idx) : point.isAnomaly ?? false,
+            })),
+          };
+        });
+        setProcessedData(dataWithAnomalies);
+        setPredictions(result.predictions);
 
-        // AI insights (always generate when data exists)
         if (shouldRunAIInsights) {
-          const aiInsights = generateAIInsights(
-            numericValues,
-            detectedAnomalies,
-            trendPredictions
-          );
-          setInsights(aiInsights);
+          setInsights(result.insights);
         }
       } catch (error) {
-        console.error('Analysis error:', error);
+        // Cancelled because the inputs changed; a newer run takes over
+        if (!(error instanceof Error && error.name === 'AbortError')) {
+          console.error('Analysis error:', error);
+        }
       } finally {
+        if (liveAnalysis.current === controller) {
+          liveAnalysis.current = null;
+        }
         setLoading(false);
       }
-    }, 500); // 500ms debounce
+    }, delay);
 
-    return () => clearTimeout(timeoutId);
+    return () => {
+      clearTimeout(timeoutId);
+      // A live run is only stopped by the effect below
+      if (!liveMode) {
+        controller.abort();
+      }
+    };
   }, [
-    numericValues,
-    timeSeriesData,
+    series,
+    multiSeries,
     options.enableAnomalyDetection,
     options.anomalyMethod,
     options.anomalySensitivity,
     options.enableTrendPrediction,
+    options.forecastMethod,
     options.predictionSteps,
     options.enableAIInsights,
     options.visualizationMode,
+    liveMode,
+  ]);
+
+  // Stop a background live analysis when its settings change, the stream is switched off or the panel goes away
+  useEffect(() => {
+    return () => liveAnalysis.current?.abort();
+  }, [
+    options.enableAnomalyDetection,
+    options.anomalyMethod,
+    options.anomalySensitivity,
+    options.enableTrendPrediction,
+    options.forecastMethod,
+    options.predictionSteps,
+    options.enableAIInsights,
+    options.visualizationMode,
+    liveMode,
   ]);
 
   // Check if we have any data to display
-  const hasExternalData = options.enableDataUpload && options.dataUrl && externalData.length > 0;
+  const hasExternalData = options.enableDataUpload && hasDataSource && externalData.length > 0;
+
+  // Keep a dropped file in state, and in the panel options when saving is on and it is small enough
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    try {
+      const localFile = await readLocalFile(file);
+      setDroppedFile(localFile);
+      if (options.persistUploadedFile && canPersistFile(localFile)) {
+        onOptionsChange({ ...options, uploadedFile: toPersistedFile(localFile) });
+      } else if (options.uploadedFile) {
+        // Don't let an older saved file come back on the next dashboard load
+        onOptionsChange({ ...options, uploadedFile: undefined });
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      setDataError(`Failed to read ${file.name}: ${errorMsg}`);
+    }
+  };
+
+  const clearFile = () => {
+    setDroppedFile(null);
+    if (options.uploadedFile) {
+      onOptionsChange({ ...options, uploadedFile: undefined });
+    }
+  };
   // Only show error if no data source is available
   if (!options.enableDataUpload && data.series.length === 0) {
     return <PanelDataErrorView fieldConfig={fieldConfig} panelId={id} data={data} needsStringField />;
   }
 
-  const dataToDisplay = processedData.length > 0 ? processedData : timeSeriesData;
+  // Live points already carry their anomaly flags; showing them directly keeps the chart current
+  const dataToDisplay = !liveMode && processedData.length > 0 ? processedData : series;
 
   return (
     <div
@@ -456,6 +821,62 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
         </div>
       )}
 
+      {/* Parse report: rows read / accepted / rejected for the last load */}
+      {options.enableDataUpload && !dataLoading && dataDiagnostics && hasIssues(dataDiagnostics) && (
+        <details
+          open={dataDiagnostics.rowsAccepted === 0}
+          className={css`
+            padding: 10px 16px;
+            margin: 16px 16px 0;
+            background: rgba(241, 196, 15, 0.08);
+            border: 1px solid rgba(241, 196, 15, 0.45);
+            border-radius: 8px;
+            color: rgba(255, 255, 255, 0.8);
+            font-size: ${options.fontSize * 0.8}px;
+
+            summary {
+              cursor: pointer;
+              font-weight: 600;
+            }
+
+            ul {
+              margin: 6px 0 0;
+              padding-left: 18px;
+              max-height: 160px;
+              overflow-y: auto;
+            }
+          `}
+        >
+          <summary>
+            Parse report: {dataDiagnostics.rowsRead} rows read, {dataDiagnostics.rowsAccepted} accepted,{' '}
+            {dataDiagnostics.rowsRejected} rejected
+            {dataDiagnostics.timestampFallbacks > 0 &&
+              `, ${dataDiagnostics.timestampFallbacks} timestamp fallbacks`}
+          </summary>
+          {dataDiagnostics.notes.map((note, idx) => (
+            <div key={idx} style={{ marginTop: '6px' }}>{note}</div>
+          ))}
+          {dataDiagnostics.rejected.length > 0 && (
+            <ul>
+              {dataDiagnostics.rejected.map((row, idx) => (
+                <li key={idx}>
+                  {row.location}: {row.reason}
+                </li>
+              ))}
+              {dataDiagnostics.rowsRejected > dataDiagnostics.rejected.length && (
+                <li>...and {dataDiagnostics.rowsRejected - dataDiagnostics.rejected.length} more</li>
+              )}
+            </ul>
+          )}
+          {dataDiagnostics.timestampFallbacks > 0 && (
+            <div style={{ marginTop: '6px' }}>
+              Unparsed times were stamped with the load time: {dataDiagnostics.fallbackLocations.join(', ')}
+              {dataDiagnostics.timestampFallbacks > dataDiagnostics.fallbackLocations.length && ', ...'}
+            </div>
+          )}
+        </details>
+      )}
+
       {/* External Data Status */}
       {options.enableDataUpload && !dataLoading && (
         <div className={css`
@@ -492,7 +913,21 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                     font-size: ${options.fontSize * 0.8}px;
                     margin-top: 2px;
                   `}>
-                    {externalData.length} data points from URL
+                    {externalData.reduce((sum, s) => sum + s.points.length, 0)} data points
+                    {externalData.length > 1 ? ` in ${externalData.length} series` : ''} from{' '}
+                    {liveMode
+                      ? `live ${options.dataSourceMode === 'sse' ? 'Server-Sent Events' : 'WebSocket'} stream` +
+                        (streamStatus ? ` (${STREAM_STATUS_LABELS[streamStatus]})` : '')
+                      : dataFile
+                      ? dataFile.name
+                      : 'URL'}
+                    {!dataFile &&
+                      !liveMode &&
+                      dataUpdatedAt !== null &&
+                      (options.dataRefreshInterval > 0 || options.refreshWithDashboard) &&
+                      ` • checked ${dateTimeFormat(dataUpdatedAt, { format: 'HH:mm:ss', timeZone })}`}
+                    {detectedFormat &&
+                      ` • ${FORMAT_LABELS[detectedFormat.format]} (auto-detected from ${detectedFormat.reason})`}
                   </div>
                 </div>
               </>
@@ -512,14 +947,18 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                     font-size: ${options.fontSize * 0.8}px;
                     margin-top: 2px;
                   `}>
-                    {options.dataUrl ? 'Waiting for data from URL' : 'Add a Data URL in settings to load external data'}
+                    {options.dataUrl && liveMode
+                      ? `Waiting for stream messages (${STREAM_STATUS_LABELS[streamStatus ?? 'connecting']})`
+                      : options.dataUrl
+                      ? 'Waiting for data from URL'
+                      : 'Add a Data URL in settings or drop a file below to load external data'}
                   </div>
                 </div>
               </>
             )}
           </div>
           
-          {!hasExternalData && !options.dataUrl && (
+          {!hasExternalData && !hasDataSource && (
             <div className={css`
               color: #888;
               font-size: ${options.fontSize * 0.8}px;
@@ -531,13 +970,109 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
         </div>
       )}
 
+      {/* Local file: drop zone and file picker */}
+      {options.enableDataUpload && !liveMode && (
+        <div
+          onDragOver={(event) => {
+            event.preventDefault();
+            setDragActive(true);
+          }}
+          onDragLeave={() => setDragActive(false)}
+          onDrop={(event) => {
+            event.preventDefault();
+            setDragActive(false);
+            handleFile(event.dataTransfer.files[0]);
+          }}
+          className={css`
+            padding: 12px 16px;
+            margin: 0 16px 16px;
+            border: 2px dashed ${dragActive ? options.primaryColor : 'rgba(255, 255, 255, 0.2)'};
+            border-radius: 8px;
+            background: ${dragActive ? 'rgba(255, 255, 255, 0.06)' : 'transparent'};
+            color: #888;
+            font-size: ${options.fontSize * 0.8}px;
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            flex-wrap: wrap;
+            gap: 8px;
+
+            button {
+              padding: 4px 10px;
+              border-radius: 4px;
+              border: 1px solid ${options.primaryColor};
+              background: transparent;
+              color: ${options.primaryColor};
+              font-size: ${options.fontSize * 0.8}px;
+              cursor: pointer;
+              margin-left: 8px;
+            }
+          `}
+        >
+          <input
+            ref={fileInput}
+            type="file"
+            accept={ACCEPTED_FILE_TYPES}
+            hidden
+            onChange={(event) => {
+              handleFile(event.target.files?.[0]);
+              // Allow picking the same file again after editing it
+              event.target.value = '';
+            }}
+          />
+          <span>
+            {dataFile ? (
+              <>
+                Local file <strong>{dataFile.name}</strong> ({formatFileSize(dataFile.bytes.length)})
+                {options.persistUploadedFile &&
+                  (canPersistFile(dataFile)
+                    ? ' • stored in the panel JSON'
+                    : ` • not stored in the panel JSON (over ${formatFileSize(MAX_PERSISTED_FILE_BYTES)})`)}
+              </>
+            ) : (
+              'Drop a CSV, JSON, NDJSON, SQL or SQLite file here to analyze it without hosting it'
+            )}
+          </span>
+          <span>
+            <button type="button" onClick={() => fileInput.current?.click()}>
+              {dataFile ? 'Replace file' : 'Choose file'}
+            </button>
+            {dataFile && (
+              <button type="button" onClick={clearFile}>
+                {options.dataUrl ? 'Use URL' : 'Remove file'}
+              </button>
+            )}
+          </span>
+        </div>
+      )}
+
+      {/* Fallbacks and approximations */}
+      {analysisNotices.length > 0 && (
+        <div className={css`
+          padding: 10px 16px;
+          margin: 0 0 16px;
+          background: rgba(241, 196, 15, 0.08);
+          border: 1px solid rgba(241, 196, 15, 0.45);
+          border-radius: 8px;
+          color: rgba(255, 255, 255, 0.8);
+          font-size: ${options.fontSize * 0.8}px;
+        `}>
+          {analysisNotices.map((notice, idx) => (
+            <div key={idx}>Note: {notice}</div>
+          ))}
+        </div>
+      )}
+
       {/* Main content */}
       <div className={styles.content}>
         {/* Visualization Mode: Chart */}
         {options.visualizationMode === 'chart' && (
           <div className={styles.chartContainer}>
             <AdvancedChart
-              data={dataToDisplay}
+              series={dataToDisplay}
+              width={width}
+              maxRenderedPoints={options.maxRenderedPoints}
+              timeZone={timeZone}
               predictions={predictions}
               chartType={options.chartType}
               primaryColor={options.primaryColor}
@@ -552,8 +1087,8 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
         )}
 
         {/* Visualization Mode: Gauge */}
-        {options.visualizationMode === 'gauge' && stats && (
-          <div className={styles.chartContainer}>
+        {options.visualizationMode === 'gauge' && seriesStats.map(({ series: s, stats }) => (
+          <div key={s.id} className={styles.chartContainer}>
             <div className={css`
               display: flex;
               justify-content: center;
@@ -577,7 +1112,7 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                 text-transform: uppercase;
                 letter-spacing: 2px;
               `}>
-                Average Value
+                {multiSeries ? `${s.name} • Average Value` : 'Average Value'}
               </div>
               <div className={css`
                 display: flex;
@@ -629,16 +1164,19 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
               </div>
             </div>
           </div>
-        )}
+        ))}
 
         {/* Visualization Mode: Stats */}
-        {options.visualizationMode === 'stats' && stats && (
-          <StatsPanel
-            stats={stats}
-            primaryColor={options.primaryColor}
-            fontSize={options.fontSize}
-          />
-        )}
+        {options.visualizationMode === 'stats' &&
+          seriesStats.map(({ series: s, stats }) => (
+            <StatsPanel
+              key={s.id}
+              title={multiSeries ? s.name : undefined}
+              stats={stats}
+              primaryColor={options.primaryColor}
+              fontSize={options.fontSize}
+            />
+          ))}
 
         {/* Visualization Mode: AI Analysis */}
         {options.visualizationMode === 'ai-analysis' && (
@@ -651,13 +1189,15 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
             />
             
             {/* Statistics */}
-            {stats && (
+            {seriesStats.map(({ series: s, stats }) => (
               <StatsPanel
+                key={s.id}
+                title={multiSeries ? s.name : undefined}
                 stats={stats}
                 primaryColor={options.primaryColor}
                 fontSize={options.fontSize}
               />
-            )}
+            ))}
             
             {/* Anomaly Detection Results - Always shown in AI Analysis mode */}
             <div className={css`
@@ -703,7 +1243,11 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                         border-radius: 4px;
                         font-size: ${options.fontSize * 0.9}px;
                       `}>
-                        <strong>Index {anomaly.index}:</strong> Value = {anomaly.value.toFixed(2)}, 
+                        <strong>
+                          {multiSeries && `${seriesNames.get(anomaly.seriesId ?? '') ?? ''} • `}
+                          {dateTimeFormat(anomaly.timestamp, { timeZone })}:
+                        </strong>{' '}
+                        Value = {anomaly.value.toFixed(2)}, 
                         Score = {anomaly.score.toFixed(2)}
                       </div>
                     ))}
@@ -731,8 +1275,8 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
               </div>
             
             {/* Trend Predictions - Always shown in AI Analysis mode */}
-            {predictions.length > 0 && (
-              <div className={css`
+            {predictionGroups.map((group) => (
+              <div key={group.id} className={css`
                 padding: 16px;
                 background: rgba(0, 0, 0, 0.2);
                 border-radius: 8px;
@@ -744,7 +1288,7 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                   color: ${options.secondaryColor};
                   margin-bottom: 12px;
                 `}>
-                  Trend forecast: next {predictions.length} points
+                  Trend forecast{multiSeries && ` • ${group.name}`}: next {group.predictions.length} points
                 </div>
                 <div className={css`
                   color: rgba(255, 255, 255, 0.7);
@@ -752,9 +1296,10 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                   line-height: 1.45;
                   margin-bottom: 12px;
                 `}>
-                  This section shows the model’s estimated values for the <strong>next {predictions.length} data points</strong>.
-                  “+1” means the next point right after the last real measurement. The percent value is the model’s <strong>confidence</strong>
+                  This section shows the model’s estimated values for the <strong>next {group.predictions.length} data points</strong>.
+                  “+1” means the next point right after the last real measurement, one sampling interval later. The percent value is the model’s <strong>confidence</strong>
                   (higher = more reliable) and it typically decreases as we predict further into the future.
+                  The 95% range is where the real value is expected to land 19 times out of 20; the chart shades it together with the 80% range.
                 </div>
                 <div className={css`
                   display: grid;
@@ -763,7 +1308,7 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                   max-height: 200px;
                   overflow-y: auto;
                 `}>
-                  {predictions.slice(0, 10).map((pred, idx) => (
+                  {group.predictions.slice(0, 10).map((pred, idx) => (
                     <div key={idx} className={css`
                       padding: 8px;
                       background: rgba(0, 100, 255, 0.1);
@@ -778,6 +1323,12 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                       `}>
                         +{idx + 1}
                       </div>
+                      <div className={css`
+                        color: #888;
+                        font-size: 0.9em;
+                      `}>
+                        {dateTimeFormat(pred.timestamp, { timeZone })}
+                      </div>
                       <div className={css`color: #fff;`}>
                         {pred.value.toFixed(2)}
                       </div>
@@ -787,22 +1338,34 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
                       `}>
                         Confidence: {(pred.confidence * 100).toFixed(0)}%
                       </div>
+                      {pred.interval95 && (
+                        <div className={css`
+                          color: #888;
+                          font-size: 0.9em;
+                        `}>
+                          95%: {pred.interval95.lower.toFixed(2)} – {pred.interval95.upper.toFixed(2)}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
               </div>
-            )}
+            ))}
           </>
         )}
 
         {/* Show Stats below chart if enabled and not in stats mode */}
-        {options.showStats && options.visualizationMode === 'chart' && stats && (
-          <StatsPanel
-            stats={stats}
-            primaryColor={options.primaryColor}
-            fontSize={options.fontSize}
-          />
-        )}
+        {options.showStats &&
+          options.visualizationMode === 'chart' &&
+          seriesStats.map(({ series: s, stats }) => (
+            <StatsPanel
+              key={s.id}
+              title={multiSeries ? s.name : undefined}
+              stats={stats}
+              primaryColor={options.primaryColor}
+              fontSize={options.fontSize}
+            />
+          ))}
 
         {/* Show AI Insights below chart if enabled and not in ai-analysis mode */}
         {options.enableAIInsights && options.visualizationMode === 'chart' && (
@@ -834,6 +1397,17 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
         <div className={styles.loadingOverlay}>
           <div className={styles.loadingText}>
             AI Analysis in Progress...
+            {progress && progress.total > 1 && (
+              <div className={css`
+                margin-top: 8px;
+                font-size: ${options.fontSize * 0.8}px;
+                font-weight: 500;
+                opacity: 0.8;
+                text-align: center;
+              `}>
+                {Math.round((progress.completed / progress.total) * 100)}% • {progress.message}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -14,11 +14,12 @@ interface Stats {
 
 interface Props {
   stats: Stats | null;
+  title?: string;
   primaryColor: string;
   fontSize: number;
 }
 
-export const StatsPanel: React.FC<Props> = ({ stats, primaryColor, fontSize }) => {
+export const StatsPanel: React.FC<Props> = ({ stats, title, primaryColor, fontSize }) => {
   const theme = useTheme2();
 
   const styles = {
@@ -31,6 +32,12 @@ export const StatsPanel: React.FC<Props> = ({ stats, primaryColor, fontSize }) =
       border-radius: 8px;
       margin: 12px 0;
     `,
+    title: css`
+      grid-column: 1 / -1;
+      font-size: ${fontSize}px;
+      font-weight: 600;
+      color: ${theme.colors.text.primary};
+    `,
     statBox: css`
       display: flex;
       flex-direction: column;
@@ -85,6 +92,7 @@ export const StatsPanel: React.FC<Props> = ({ stats, primaryColor, fontSize }) =
 
   return (
     <div className={styles.container}>
+      {title && <div className={styles.title}>{title}</div>}
       {statItems.map((item) => (
         <div key={item.label} className={styles.statBox}>
           <div className={styles.statLabel}>
@@ -1,6 +1,21 @@
 import { PanelPlugin } from '@grafana/data';
-import { SimpleOptions } from './types';
+import { ParserFormat, SimpleOptions } from './types';
 import { SimplePanel } from './components/SimplePanel';
+import { SecretEditor } from './components/SecretEditor';
+
+const isLiveSource = (config: SimpleOptions) => config.dataSourceMode === 'sse' || config.dataSourceMode === 'websocket';
+
+const showForUrl = (config: SimpleOptions) => config.enableDataUpload && !isLiveSource(config);
+
+// Parser-specific options are shown for their formats and for auto-detection;
+// live streams carry JSON records, so only the per-record options apply to them
+const showForFormats =
+  (...formats: ParserFormat[]) =>
+  (config: SimpleOptions) =>
+    config.enableDataUpload &&
+    (isLiveSource(config)
+      ? formats.includes('ndjson')
+      : config.dataFormat === 'auto' || formats.includes(config.dataFormat));
 
 export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOptions((builder) => {
   return builder
@@ -36,6 +51,19 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       },
       showIf: (config) => config.visualizationMode === 'chart',
     })
+    .addSliderInput({
+      path: 'maxRenderedPoints',
+      name: 'Max Rendered Points',
+      description: 'Upper limit of points drawn per series (LTTB downsampling); analysis always uses every point',
+      defaultValue: 2000,
+      category: ['Visualization'],
+      settings: {
+        min: 100,
+        max: 10000,
+        step: 100,
+      },
+      showIf: (config) => config.visualizationMode === 'chart',
+    })
 
     // ===== COLOR CUSTOMIZATION =====
     .addColorPicker({
@@ -110,6 +138,22 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       defaultValue: false,
       category: ['AI Features'],
     })
+    .addRadio({
+      path: 'forecastMethod',
+      name: 'Forecast Method',
+      description: 'Model used to predict future values',
+      defaultValue: 'ml',
+      category: ['AI Features'],
+      settings: {
+        options: [
+          { value: 'ml', label: 'Machine Learning (Slow)' },
+          { value: 'linear', label: 'Linear (Fast)' },
+          { value: 'holt-winters', label: 'Holt-Winters (Seasonal)' },
+          { value: 'arima', label: 'ARIMA (Fast, Large Data)' },
+        ],
+      },
+      showIf: (config) => config.enableTrendPrediction,
+    })
     .addSliderInput({
       path: 'predictionSteps',
       name: 'Prediction Steps',
@@ -135,31 +179,308 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
     .addBooleanSwitch({
       path: 'enableDataUpload',
       name: 'Enable External Data Upload',
-      description: 'Load data from external files (CSV, JSON, SQL)',
+      description: 'Load data from a URL or a file dropped on the panel (CSV, JSON, SQL, ...)',
       defaultValue: false,
       category: ['Data Source'],
     })
+    .addRadio({
+      path: 'dataSourceMode',
+      name: 'Source',
+      description: 'Fetch a file from a URL, or stream live points from a Server-Sent Events or WebSocket endpoint',
+      defaultValue: 'url',
+      category: ['Data Source'],
+      settings: {
+        options: [
+          { value: 'url', label: 'URL' },
+          { value: 'sse', label: 'Server-Sent Events' },
+          { value: 'websocket', label: 'WebSocket' },
+        ],
+      },
+      showIf: (config) => config.enableDataUpload,
+    })
     .addRadio({
       path: 'dataFormat',
       name: 'Data Format',
-      description: 'Format of the data file',
-      defaultValue: 'csv',
+      description: 'Format of the data file; Auto picks one from the Content-Type, file extension and content',
+      defaultValue: 'auto',
       category: ['Data Source'],
       settings: {
         options: [
+          { value: 'auto', label: 'Auto' },
           { value: 'csv', label: 'CSV' },
           { value: 'json', label: 'JSON' },
+          { value: 'ndjson', label: 'NDJSON' },
           { value: 'sql', label: 'SQL' },
+          { value: 'prometheus', label: 'Prometheus' },
+          { value: 'influx', label: 'InfluxDB Line Protocol' },
         ],
       },
-      showIf: (config) => config.enableDataUpload,
+      showIf: showForUrl,
     })
     .addTextInput({
       path: 'dataUrl',
       name: 'Data URL',
-      description: 'URL to data file (CSV, JSON array, or SQL dump)',
+      description:
+        'URL to data file (CSV, JSON array, JSON Lines, SQL dump or SQLite file, Prometheus output, or line protocol), ' +
+        'or the stream endpoint (https://... for Server-Sent Events, wss://... for WebSocket). ' +
+        'Dashboard variables such as $host, $__from and $__to are filled in',
+      defaultValue: '',
+      category: ['Data Source'],
+      showIf: (config) => config.enableDataUpload,
+    })
+    .addSliderInput({
+      path: 'streamBufferSize',
+      name: 'Live Buffer Size',
+      description: 'Latest points kept per series; older points drop off the chart',
+      defaultValue: 1000,
+      category: ['Data Source'],
+      settings: {
+        min: 100,
+        max: 10000,
+        step: 100,
+      },
+      showIf: (config) => config.enableDataUpload && isLiveSource(config),
+    })
+    .addSelect({
+      path: 'dataRefreshInterval',
+      name: 'Refresh Interval',
+      description: 'Re-fetch the data URL periodically; unchanged files are skipped via ETag / Last-Modified',
+      defaultValue: 0,
+      category: ['Data Source'],
+      settings: {
+        options: [
+          { value: 0, label: 'Off' },
+          { value: 10, label: '10s' },
+          { value: 30, label: '30s' },
+          { value: 60, label: '1m' },
+          { value: 300, label: '5m' },
+          { value: 900, label: '15m' },
+          { value: 3600, label: '1h' },
+        ],
+      },
+      showIf: showForUrl,
+    })
+    .addBooleanSwitch({
+      path: 'refreshWithDashboard',
+      name: 'Refresh With Dashboard',
+      description: 'Re-fetch the data URL whenever the dashboard refreshes or its time range changes',
+      defaultValue: true,
+      category: ['Data Source'],
+      showIf: showForUrl,
+    })
+    .addRadio({
+      path: 'requestMethod',
+      name: 'Request Method',
+      description: 'POST sends the request body below, for query APIs',
+      defaultValue: 'GET',
+      category: ['Data Source'],
+      settings: {
+        options: [
+          { value: 'GET', label: 'GET' },
+          { value: 'POST', label: 'POST' },
+        ],
+      },
+      showIf: showForUrl,
+    })
+    .addTextInput({
+      path: 'requestHeaders',
+      name: 'Request Headers',
+      description:
+        'One "Name: value" per line, e.g. Accept: text/csv. Shown here and saved in plain text in the dashboard JSON; ' +
+        'use Authentication for tokens and passwords',
+      defaultValue: '',
+      category: ['Data Source'],
+      settings: {
+        useTextarea: true,
+        rows: 3,
+      },
+      showIf: showForUrl,
+    })
+    .addTextInput({
+      path: 'requestBody',
+      name: 'Request Body',
+      description: 'Sent with POST, e.g. a JSON query; add a Content-Type header to match',
+      defaultValue: '',
+      category: ['Data Source'],
+      settings: {
+        useTextarea: true,
+        rows: 4,
+      },
+      showIf: (config) => showForUrl(config) && config.requestMethod === 'POST',
+    })
+    .addRadio({
+      path: 'requestAuth',
+      name: 'Authentication',
+      description: 'Adds an Authorization header to every request for the data URL',
+      defaultValue: 'none',
+      category: ['Data Source'],
+      settings: {
+        options: [
+          { value: 'none', label: 'None' },
+          { value: 'bearer', label: 'Bearer token' },
+          { value: 'basic', label: 'Basic' },
+        ],
+      },
+      showIf: showForUrl,
+    })
+    .addTextInput({
+      path: 'requestUsername',
+      name: 'User Name',
+      defaultValue: '',
+      category: ['Data Source'],
+      showIf: (config) => showForUrl(config) && config.requestAuth === 'basic',
+    })
+    .addCustomEditor({
+      id: 'requestSecret',
+      path: 'requestSecret',
+      name: 'Token / Password',
+      description:
+        'Not shown again once saved. WARNING: it is stored as plain text in the dashboard JSON, so anyone who can ' +
+        'edit, export or read the JSON of this dashboard can read it; prefer a read-only, narrowly scoped token',
+      defaultValue: '',
+      category: ['Data Source'],
+      editor: SecretEditor,
+      settings: {
+        placeholder: 'Token or password',
+      },
+      showIf: (config) => showForUrl(config) && (config.requestAuth === 'bearer' || config.requestAuth === 'basic'),
+    })
+    .addBooleanSwitch({
+      path: 'requestWithCredentials',
+      name: 'Send Browser Cookies',
+      description: "Include the viewer's own cookies for the data server (it must allow credentialed CORS)",
+      defaultValue: false,
+      category: ['Data Source'],
+      showIf: showForUrl,
+    })
+    .addBooleanSwitch({
+      path: 'persistUploadedFile',
+      name: 'Save Dropped Files With Dashboard',
+      description: 'Store a file dropped on the panel (up to 256 KB) in the panel JSON so it loads again after saving',
+      defaultValue: false,
+      category: ['Data Source'],
+      showIf: showForUrl,
+    })
+    .addSelect({
+      path: 'csvDelimiter',
+      name: 'CSV Delimiter',
+      description: 'Field separator; auto-detect picks the one that splits rows consistently',
+      defaultValue: 'auto',
+      category: ['Data Source'],
+      settings: {
+        options: [
+          { value: 'auto', label: 'Auto-detect' },
+          { value: ',', label: 'Comma (,)' },
+          { value: ';', label: 'Semicolon (;)' },
+          { value: '\t', label: 'Tab' },
+          { value: '|', label: 'Pipe (|)' },
+        ],
+      },
+      showIf: showForFormats('csv'),
+    })
+    .addRadio({
+      path: 'csvHeader',
+      name: 'CSV Header Row',
+      description: 'Whether the first row holds column names',
+      defaultValue: 'auto',
+      category: ['Data Source'],
+      settings: {
+        options: [
+          { value: 'auto', label: 'Auto' },
+          { value: 'yes', label: 'Yes' },
+          { value: 'no', label: 'No' },
+        ],
+      },
+      showIf: showForFormats('csv'),
+    })
+    .addTextInput({
+      path: 'csvTimeColumn',
+      name: 'Time Column',
+      description: 'Column name or 1-based number (empty: time/timestamp/date column, else the first)',
+      defaultValue: '',
+      category: ['Data Source'],
+      showIf: showForFormats('csv'),
+    })
+    .addTextInput({
+      path: 'csvValueColumns',
+      name: 'Value Columns',
+      description: 'Comma-separated column names or numbers (empty: every numeric column)',
+      defaultValue: '',
+      category: ['Data Source'],
+      showIf: showForFormats('csv'),
+    })
+    .addTextInput({
+      path: 'jsonRecordsPath',
+      name: 'Records Path',
+      description: 'JSONPath to the array of records, e.g. $.data.result[*] (empty: the document is the array)',
+      defaultValue: '',
+      category: ['Data Source'],
+      showIf: showForFormats('json'),
+    })
+    .addTextInput({
+      path: 'jsonTimePath',
+      name: 'Time Path',
+      description: 'JSONPath to the time within a record, e.g. $.attributes.time (empty: timestamp/time/date/ts/x)',
       defaultValue: '',
       category: ['Data Source'],
+      showIf: showForFormats('json', 'ndjson'),
+    })
+    .addTextInput({
+      path: 'jsonValuePaths',
+      name: 'Value Paths',
+      description: 'Comma-separated JSONPaths to values within a record (empty: every numeric field)',
+      defaultValue: '',
+      category: ['Data Source'],
+      showIf: showForFormats('json', 'ndjson'),
+    })
+    .addTextInput({
+      path: 'sqlQuery',
+      name: 'SQL Query',
+      description: 'SELECT run against the SQL dump or SQLite file, e.g. SELECT time, value FROM metrics (empty: the first table)',
+      defaultValue: '',
+      category: ['Data Source'],
+      settings: {
+        useTextarea: true,
+        rows: 4,
+      },
+      showIf: showForFormats('sql'),
+    })
+    .addSelect({
+      path: 'timestampFormat',
+      name: 'Timestamp Format',
+      description: 'How time values are read; Auto reads ISO 8601, epochs scaled by magnitude, and numeric dates',
+      defaultValue: 'auto',
+      category: ['Data Source'],
+      settings: {
+        options: [
+          { value: 'auto', label: 'Auto' },
+          { value: 'iso', label: 'ISO 8601' },
+          { value: 'epoch_s', label: 'Epoch seconds' },
+          { value: 'epoch_ms', label: 'Epoch milliseconds' },
+          { value: 'epoch_us', label: 'Epoch microseconds' },
+          { value: 'epoch_ns', label: 'Epoch nanoseconds' },
+          { value: 'custom', label: 'Custom pattern' },
+        ],
+      },
+      showIf: (config) => config.enableDataUpload,
+    })
+    .addTextInput({
+      path: 'timestampPattern',
+      name: 'Timestamp Pattern',
+      description: 'Pattern of the time values, e.g. DD.MM.YYYY HH:mm or MM/DD/YYYY hh:mm A ([text] is literal)',
+      defaultValue: 'DD.MM.YYYY HH:mm',
+      category: ['Data Source'],
+      showIf: (config) => config.enableDataUpload && config.timestampFormat === 'custom',
+    })
+    .addTextInput({
+      path: 'sourceTimeZone',
+      name: 'Source Time Zone',
+      description: 'Zone of times written without an offset, e.g. Europe/Istanbul or UTC (empty: browser time zone)',
+      defaultValue: '',
+      category: ['Data Source'],
+      settings: {
+        placeholder: 'Browser',
+      },
       showIf: (config) => config.enableDataUpload,
     })
 
@@ -3,6 +3,24 @@ type SeriesSize = 'sm' | 'md' | 'lg';
 export type VisualizationMode = 'chart' | 'gauge' | 'stats' | 'ai-analysis';
 export type ChartType = 'line' | 'bar' | 'area' | 'scatter';
 export type AnomalyMethod = 'zscore' | 'iqr' | 'ml';
+export type ForecastMethod = 'ml' | 'linear' | 'holt-winters' | 'arima';
+export type ParserFormat = 'csv' | 'json' | 'ndjson' | 'sql' | 'prometheus' | 'influx';
+export type DataFormat = 'auto' | ParserFormat;
+export type DataSourceMode = 'url' | 'sse' | 'websocket';
+export type RequestMethod = 'GET' | 'POST';
+export type RequestAuth = 'none' | 'bearer' | 'basic';
+export type CsvDelimiter = 'auto' | ',' | ';' | '\t' | '|';
+export type CsvHeaderMode = 'auto' | 'yes' | 'no';
+export type TimestampFormat = 'auto' | 'iso' | 'epoch_s' | 'epoch_ms' | 'epoch_us' | 'epoch_ns' | 'custom';
+
+// A dropped data file saved with the panel
+export interface PersistedDataFile {
+  name: string;
+  type: string;
+  size: number;
+  // File contents, base64 encoded
+  content: string;
+}
 
 export interface SimpleOptions {
   text: string;
@@ -12,6 +30,7 @@ export interface SimpleOptions {
   // Visualization Options
   visualizationMode: VisualizationMode;
   chartType: ChartType;
+  maxRenderedPoints: number;
   
   // Color Options
   primaryColor: string;
@@ -25,14 +44,43 @@ export interface SimpleOptions {
   anomalySensitivity: number;
   
   enableTrendPrediction: boolean;
+  forecastMethod: ForecastMethod;
   predictionSteps: number;
   
   enableAIInsights: boolean;
   
   // Data Upload
   enableDataUpload: boolean;
+  dataSourceMode: DataSourceMode;
   dataUrl: string;
-  dataFormat: 'csv' | 'json' | 'sql';
+  requestMethod: RequestMethod;
+  requestHeaders: string;
+  requestBody: string;
+  requestAuth: RequestAuth;
+  requestUsername: string;
+  // Bearer token or Basic password; plain text in the dashboard JSON, never shown again in the editor
+  requestSecret: string;
+  requestWithCredentials: boolean;
+  dataFormat: DataFormat;
+  persistUploadedFile: boolean;
+  // Seconds between re-fetches of the data URL; 0 turns polling off
+  dataRefreshInterval: number;
+  refreshWithDashboard: boolean;
+  // Points kept per series for live streams
+  streamBufferSize: number;
+  // Set by the panel when a dropped file is saved; not shown in the editor
+  uploadedFile?: PersistedDataFile;
+  csvDelimiter: CsvDelimiter;
+  csvHeader: CsvHeaderMode;
+  csvTimeColumn: string;
+  csvValueColumns: string;
+  jsonRecordsPath: string;
+  jsonTimePath: string;
+  jsonValuePaths: string;
+  sqlQuery: string;
+  timestampFormat: TimestampFormat;
+  timestampPattern: string;
+  sourceTimeZone: string;
   
   // Interactivity
   enableTooltips: boolean;
@@ -48,22 +96,46 @@ export interface SimpleOptions {
 export interface DataPoint {
   timestamp: number;
   value: number;
+  seriesId?: string;
   isAnomaly?: boolean;
   isPrediction?: boolean;
 }
 
+// Identity of a single series (one numeric field of one frame)
+export interface SeriesInfo {
+  id: string;
+  name: string;
+  frameName?: string;
+  fieldName: string;
+  labels?: Record<string, string>;
+}
+
+export interface TimeSeries extends SeriesInfo {
+  points: DataPoint[];
+}
+
 export interface AnomalyResult {
   index: number;
   value: number;
   timestamp: number;
   score: number;
   method: string;
+  seriesId?: string;
+}
+
+export interface PredictionInterval {
+  lower: number;
+  upper: number;
 }
 
 export interface TrendPrediction {
   timestamp: number;
   value: number;
   confidence: number;
+  method: string;
+  interval80?: PredictionInterval;
+  interval95?: PredictionInterval;
+  seriesId?: string;
 }
 
 export interface AIInsight {
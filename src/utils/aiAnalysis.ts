@@ -1,5 +1,12 @@
 import * as tf from '@tensorflow/tfjs';
-import { AnomalyResult, TrendPrediction, AIInsight } from '../types';
+import { AnomalyResult, TrendPrediction, AIInsight, DataPoint, PredictionInterval } from '../types';
+import { detectSamplingInterval, detectSeasonality } from './dataProcessing';
+import {
+  EXACT_QUANTILE_LIMIT,
+  createQuantileEstimator,
+  createRunningStats,
+  toFloat64Array,
+} from './streamingStats';
 
 /**
  * AI-Powered Data Analysis Utilities
@@ -8,58 +15,76 @@ import { AnomalyResult, TrendPrediction, AIInsight } from '../types';
 
 // Z-Score based anomaly detection
 export function detectAnomaliesZScore(
-  data: number[],
+  points: DataPoint[],
   sensitivity = 3 // Increased from 2 to 3 for better accuracy
 ): AnomalyResult[] {
-  if (data.length < 3) {
+  if (points.length < 3) {
     return [];
   }
 
-  const mean = data.reduce((a, b) => a + b, 0) / data.length;
-  const std = Math.sqrt(
-    data.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / data.length
-  );
+  // One streaming pass for mean/std, one to flag outliers
+  const running = createRunningStats();
+  for (const point of points) {
+    running.push(point.value);
+  }
+  const mean = running.mean();
+  const std = Math.sqrt(running.variance());
 
   const anomalies: AnomalyResult[] = [];
-  data.forEach((value, index) => {
+  for (let index = 0; index < points.length; index++) {
+    const value = points[index].value;
     const zScore = Math.abs((value - mean) / (std || 1));
     // Use sensitivity directly as threshold (higher = fewer anomalies)
     if (zScore > sensitivity) {
       anomalies.push({
         index,
         value,
-        timestamp: Date.now() - (data.length - index) * 1000,
+        timestamp: points[index].timestamp,
         score: zScore,
         method: 'zscore',
       });
     }
-  });
+  }
 
   return anomalies;
 }
 
 // IQR (Interquartile Range) based anomaly detection
 export function detectAnomaliesIQR(
-  data: number[],
+  points: DataPoint[],
   sensitivity = 2.0 // Increased from 1.5 to 2.0 for better accuracy
 ): AnomalyResult[] {
-  if (data.length < 4) {
+  if (points.length < 4) {
     return [];
   }
 
-  const sorted = [...data].sort((a, b) => a - b);
-  const q1Index = Math.floor(sorted.length * 0.25);
-  const q3Index = Math.floor(sorted.length * 0.75);
-  const q1 = sorted[q1Index];
-  const q3 = sorted[q3Index];
+  let q1: number;
+  let q3: number;
+  if (points.length <= EXACT_QUANTILE_LIMIT) {
+    // Typed arrays sort numerically without a comparator
+    const sorted = toFloat64Array(points).sort();
+    q1 = sorted[Math.floor(sorted.length * 0.25)];
+    q3 = sorted[Math.floor(sorted.length * 0.75)];
+  } else {
+    // Very long series: estimate the quartiles in a single pass
+    const q1Estimator = createQuantileEstimator(0.25);
+    const q3Estimator = createQuantileEstimator(0.75);
+    for (const point of points) {
+      q1Estimator.push(point.value);
+      q3Estimator.push(point.value);
+    }
+    q1 = q1Estimator.value();
+    q3 = q3Estimator.value();
+  }
   const iqr = q3 - q1;
-  
+
   // Use sensitivity directly as multiplier (higher = wider bounds = fewer anomalies)
   const lowerBound = q1 - sensitivity * iqr;
   const upperBound = q3 + sensitivity * iqr;
 
   const anomalies: AnomalyResult[] = [];
-  data.forEach((value, index) => {
+  for (let index = 0; index < points.length; index++) {
+    const value = points[index].value;
     if (value < lowerBound || value > upperBound) {
       const distance = Math.min(
         Math.abs(value - lowerBound),
@@ -68,25 +93,28 @@ export function detectAnomaliesIQR(
       anomalies.push({
         index,
         value,
-        timestamp: Date.now() - (data.length - index) * 1000,
+        timestamp: points[index].timestamp,
         score: distance / iqr,
         method: 'iqr',
       });
     }
-  });
+  }
 
   return anomalies;
 }
 
 // ML-based anomaly detection using TensorFlow.js
 export async function detectAnomaliesML(
-  data: number[],
+  points: DataPoint[],
   sensitivity = 0.1
 ): Promise<AnomalyResult[]> {
-  if (data.length < 5) {
+  if (points.length < 5) {
     return [];
   }
 
+  // tfjs works in float32 anyway
+  const data = Float32Array.from(points, (p) => p.value);
+
   try {
     // Normalize data
     const tensor = tf.tensor1d(data);
@@ -95,8 +123,7 @@ export async function detectAnomaliesML(
     const normalized = tensor.sub(mean).div(std.add(1e-7));
 
     // Simple autoencoder approach - reconstruction error
-    // tfjs typing for `array()` is broad union; we know this is 1D -> number[]
-    const sequence = (await normalized.array()) as number[];
+    const sequence = (await normalized.data()) as Float32Array;
     const anomalies: AnomalyResult[] = [];
 
     // Use sliding window to detect anomalies
@@ -108,7 +135,7 @@ export async function detectAnomaliesML(
     const threshold = sensitivity * 0.8; // More reasonable scaling
     
     for (let i = windowSize; i < data.length; i++) {
-      const window = sequence.slice(i - windowSize, i);
+      const window = sequence.subarray(i - windowSize, i);
       const current = sequence[i];
       const windowMean =
         window.reduce((a: number, b: number) => a + b, 0) / window.length;
@@ -120,8 +147,8 @@ export async function detectAnomaliesML(
       if (error > threshold) {
         anomalies.push({
           index: i,
-          value: data[i],
-          timestamp: Date.now() - (data.length - i) * 1000,
+          value: points[i].value,
+          timestamp: points[i].timestamp,
           score: error,
           method: 'ml',
         });
@@ -136,19 +163,21 @@ export async function detectAnomaliesML(
     return anomalies;
   } catch (error) {
     console.error('ML anomaly detection failed:', error);
-    return detectAnomaliesZScore(data, sensitivity * 10);
+    return detectAnomaliesZScore(points, sensitivity * 10);
   }
 }
 
 // Advanced ML-based trend prediction using TensorFlow.js
 export async function predictTrend(
-  data: number[],
+  points: DataPoint[],
   steps = 10
 ): Promise<TrendPrediction[]> {
-  if (data.length < 5) {
-    return simpleLinearPrediction(data, steps);
+  if (points.length < 5) {
+    return simpleLinearPrediction(points, steps);
   }
 
+  const data = points.map((p) => p.value);
+
   try {
     // Use recent data for prediction (last 20-30% of data, min 10 points)
     const lookback = Math.min(30, Math.max(10, Math.floor(data.length * 0.3)));
@@ -175,7 +204,7 @@ export async function predictTrend(
     }
     
     if (xs.length < 3) {
-      return simpleLinearPrediction(data, steps);
+      return simpleLinearPrediction(points, steps);
     }
     
     // Build a simple sequential neural network
@@ -205,9 +234,17 @@ export async function predictTrend(
       shuffle: true
     });
     
+    // One-step residuals on the training window give the forecast error scale
+    const fittedTensor = model.predict(xsTensor) as tf.Tensor;
+    const fitted = (await fittedTensor.data()) as Float32Array;
+    fittedTensor.dispose();
+    const residuals = ys.map((y, idx) => (y - fitted[idx]) * normalizedStd);
+    const sigma = residualStdDev(residuals, 0);
+
     // Make predictions
     const predictions: TrendPrediction[] = [];
     const lastActualValue = data[data.length - 1];
+    const { lastTimestamp, interval } = getForecastAnchor(points);
     
     // Start with the last sequence from actual data
     let currentSequence = normalized.slice(-sequenceLength);
@@ -231,9 +268,11 @@ export async function predictTrend(
       const confidence = Math.max(0.4, Math.min(0.95, stepDecay * distancePenalty));
       
       predictions.push({
-        timestamp: Date.now() + i * 60000,
+        timestamp: lastTimestamp + i * interval,
         value: predictedValue,
-        confidence
+        confidence,
+        method: 'ml',
+        ...predictionIntervals(predictedValue, sigma, i),
       });
       
       // Update sequence for next prediction
@@ -253,7 +292,7 @@ export async function predictTrend(
     
   } catch (error) {
     console.error('ML prediction failed, falling back to linear:', error);
-    return simpleLinearPrediction(data, steps);
+    return simpleLinearPrediction(points, steps);
   }
 }
 
@@ -277,11 +316,56 @@ function calculateSlope(data: number[]): number {
   return (n * sumXY - sumX * sumY) / denominator;
 }
 
+// Two-sided normal quantiles for the forecast bands
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+// Standard deviation of model residuals, corrected for the fitted parameters
+function residualStdDev(residuals: number[], fittedParams: number): number {
+  const dof = residuals.length - fittedParams;
+  if (dof <= 0) {
+    return 0;
+  }
+  return Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / dof);
+}
+
+// Bands around a forecast value given the standard deviation of its error
+function intervalsFromSpread(
+  value: number,
+  spread: number
+): { interval80: PredictionInterval; interval95: PredictionInterval } {
+  return {
+    interval80: { lower: value - Z_80 * spread, upper: value + Z_80 * spread },
+    interval95: { lower: value - Z_95 * spread, upper: value + Z_95 * spread },
+  };
+}
+
+// Forecast error grows with the horizon; scale one-step sigma by sqrt(step)
+function predictionIntervals(
+  value: number,
+  sigma: number,
+  step: number
+): { interval80: PredictionInterval; interval95: PredictionInterval } {
+  return intervalsFromSpread(value, sigma * Math.sqrt(step));
+}
+
+// Forecasts start after the last real point and step by the series' own sampling interval
+function getForecastAnchor(points: DataPoint[]): { lastTimestamp: number; interval: number } {
+  const timestamps = points.map((p) => p.timestamp);
+  return {
+    lastTimestamp: timestamps.length > 0 ? timestamps[timestamps.length - 1] : Date.now(),
+    interval: detectSamplingInterval(timestamps),
+  };
+}
+
 // Simple linear regression fallback (uses recent data only)
-function simpleLinearPrediction(
-  data: number[],
+export function simpleLinearPrediction(
+  points: DataPoint[],
   steps: number
 ): TrendPrediction[] {
+  const data = points.map((p) => p.value);
+  const { lastTimestamp, interval } = getForecastAnchor(points);
+
   // Use only recent 30% of data for trend
   const lookback = Math.max(5, Math.floor(data.length * 0.3));
   const recentData = data.slice(-lookback);
@@ -290,6 +374,13 @@ function simpleLinearPrediction(
   const mean = recentData.reduce((a, b) => a + b, 0) / recentData.length;
   const lastValue = data[data.length - 1];
 
+  // Residuals around the fitted line (intercept + slope) set the band width
+  const intercept = mean - (slope * (recentData.length - 1)) / 2;
+  const sigma = residualStdDev(
+    recentData.map((y, x) => y - (intercept + slope * x)),
+    2
+  );
+
   const predictions: TrendPrediction[] = [];
   
   for (let i = 1; i <= steps; i++) {
@@ -301,9 +392,240 @@ function simpleLinearPrediction(
     const predValue = trendValue * dampening + mean * (1 - dampening);
     
     predictions.push({
-      timestamp: Date.now() + i * 60000,
+      timestamp: lastTimestamp + i * interval,
       value: predValue,
       confidence: Math.max(0.3, 1 - (i / steps) * 0.6),
+      method: 'linear',
+      ...predictionIntervals(predValue, sigma, i),
+    });
+  }
+
+  return predictions;
+}
+
+// One pass of additive Holt-Winters smoothing; returns final components and one-step residuals
+function runHoltWinters(
+  data: number[],
+  period: number,
+  alpha: number,
+  beta: number,
+  gamma: number
+): { level: number; trend: number; seasonals: number[]; residuals: number[] } {
+  // Initialise from the first two seasons (period 1 means no seasonality, i.e. Holt's linear method)
+  const firstSeason = data.slice(0, period);
+  const secondSeason = data.slice(period, period * 2);
+  const firstMean = firstSeason.reduce((a, b) => a + b, 0) / firstSeason.length;
+  const secondMean = secondSeason.reduce((a, b) => a + b, 0) / secondSeason.length;
+
+  let level = firstMean;
+  let trend = (secondMean - firstMean) / period;
+  const seasonals = period > 1 ? firstSeason.map((v) => v - firstMean) : [0];
+  const residuals: number[] = [];
+
+  for (let t = 0; t < data.length; t++) {
+    const s = t % seasonals.length;
+    const value = data[t];
+    residuals.push(value - (level + trend + seasonals[s]));
+
+    const lastLevel = level;
+    level = alpha * (value - seasonals[s]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - lastLevel) + (1 - beta) * trend;
+    if (period > 1) {
+      seasonals[s] = gamma * (value - level) + (1 - gamma) * seasonals[s];
+    }
+  }
+
+  return { level, trend, seasonals, residuals };
+}
+
+const HOLT_WINTERS_WINDOW = 5000;
+
+// Holt-Winters (triple exponential smoothing) using the period found by detectSeasonality
+export function predictHoltWinters(
+  points: DataPoint[],
+  steps: number
+): TrendPrediction[] {
+  // Smoothing adapts to recent behaviour, so fitting the latest window is enough
+  const data = points.slice(-HOLT_WINTERS_WINDOW).map((p) => p.value);
+  if (data.length < 4) {
+    return simpleLinearPrediction(points, steps);
+  }
+
+  const { lastTimestamp, interval } = getForecastAnchor(points);
+  // Look for the season on the differenced series so a strong trend doesn't mask it
+  const seasonality = detectSeasonality(data.slice(1).map((v, i) => v - data[i]));
+  const period = seasonality.hasSeason && seasonality.period && data.length >= seasonality.period * 2
+    ? seasonality.period
+    : 1;
+
+  // Pick smoothing factors with the lowest one-step squared error
+  const grid = [0.1, 0.3, 0.5, 0.7, 0.9];
+  let best: ReturnType<typeof runHoltWinters> | null = null;
+  let bestError = Infinity;
+  for (const alpha of grid) {
+    for (const beta of grid) {
+      for (const gamma of period > 1 ? grid : [0]) {
+        const fit = runHoltWinters(data, period, alpha, beta, gamma);
+        const error = fit.residuals.reduce((sum, r) => sum + r * r, 0);
+        if (error < bestError) {
+          bestError = error;
+          best = fit;
+        }
+      }
+    }
+  }
+
+  if (!best) {
+    return simpleLinearPrediction(points, steps);
+  }
+
+  const sigma = residualStdDev(best.residuals, period > 1 ? 3 : 2);
+  const predictions: TrendPrediction[] = [];
+
+  for (let i = 1; i <= steps; i++) {
+    const seasonal = best.seasonals[(data.length + i - 1) % best.seasonals.length];
+    const predValue = best.level + i * best.trend + seasonal;
+
+    predictions.push({
+      timestamp: lastTimestamp + i * interval,
+      value: predValue,
+      confidence: Math.max(0.3, 1 - (i / steps) * 0.6),
+      method: 'holt-winters',
+      ...predictionIntervals(predValue, sigma, i),
+    });
+  }
+
+  return predictions;
+}
+
+// Levinson-Durbin recursion: AR coefficients and innovation variance for every order up to maxOrder
+function levinsonDurbin(
+  autocov: number[],
+  maxOrder: number
+): Array<{ coefficients: number[]; variance: number }> {
+  const fits: Array<{ coefficients: number[]; variance: number }> = [{ coefficients: [], variance: autocov[0] }];
+  let phi: number[] = [];
+  let variance = autocov[0];
+
+  for (let k = 1; k <= maxOrder; k++) {
+    if (variance <= 0) {
+      break;
+    }
+
+    let acc = autocov[k];
+    for (let j = 1; j < k; j++) {
+      acc -= phi[j - 1] * autocov[k - j];
+    }
+    const reflection = acc / variance;
+
+    const next = new Array(k);
+    for (let j = 1; j < k; j++) {
+      next[j - 1] = phi[j - 1] - reflection * phi[k - j - 1];
+    }
+    next[k - 1] = reflection;
+
+    phi = next;
+    variance *= 1 - reflection * reflection;
+    fits.push({ coefficients: phi, variance });
+  }
+
+  return fits;
+}
+
+// ARIMA(p, d, 0) forecaster in plain TypeScript: differencing chosen by minimum variance,
+// AR order chosen by AIC over Yule-Walker fits. Linear in the number of points.
+export function predictARIMA(
+  points: DataPoint[],
+  steps: number
+): TrendPrediction[] {
+  const data = points.map((p) => p.value);
+  if (data.length < 10) {
+    return simpleLinearPrediction(points, steps);
+  }
+
+  const { lastTimestamp, interval } = getForecastAnchor(points);
+
+  // Difference once if that makes the series less variable (i.e. it has a trend / random walk)
+  const differenced = data.slice(1).map((v, i) => v - data[i]);
+  const variance = (values: number[]) => {
+    const m = values.reduce((a, b) => a + b, 0) / values.length;
+    return values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / values.length;
+  };
+  const d = variance(differenced) < variance(data) ? 1 : 0;
+  const series = d === 1 ? differenced : data;
+
+  const n = series.length;
+  const mean = series.reduce((a, b) => a + b, 0) / n;
+  const centered = series.map((v) => v - mean);
+
+  const maxOrder = Math.min(20, Math.floor(n / 4));
+  const autocov: number[] = [];
+  for (let lag = 0; lag <= maxOrder; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) {
+      sum += centered[i] * centered[i - lag];
+    }
+    autocov.push(sum / n);
+  }
+
+  if (autocov[0] <= 0) {
+    return simpleLinearPrediction(points, steps);
+  }
+
+  // AIC = n * ln(sigma^2) + 2 * (p + 1)
+  let best = { coefficients: [] as number[], variance: autocov[0] };
+  let bestAic = Infinity;
+  for (const fit of levinsonDurbin(autocov, maxOrder)) {
+    const aic = n * Math.log(Math.max(fit.variance, 1e-12)) + 2 * (fit.coefficients.length + 1);
+    if (aic < bestAic) {
+      bestAic = aic;
+      best = fit;
+    }
+  }
+
+  const phi = best.coefficients;
+  const order = phi.length;
+
+  // Psi weights of the MA(infinity) form drive the widening of the bands
+  const psi = [1];
+  for (let j = 1; j < steps; j++) {
+    let weight = 0;
+    for (let k = 1; k <= Math.min(j, order); k++) {
+      weight += phi[k - 1] * psi[j - k];
+    }
+    psi.push(weight);
+  }
+  if (d === 1) {
+    for (let j = 1; j < psi.length; j++) {
+      psi[j] += psi[j - 1];
+    }
+  }
+
+  const history = centered.slice(-Math.max(order, 1));
+  const predictions: TrendPrediction[] = [];
+  let level = data[data.length - 1];
+  let errorVariance = 0;
+
+  for (let i = 1; i <= steps; i++) {
+    let next = 0;
+    for (let k = 1; k <= order; k++) {
+      next += phi[k - 1] * history[history.length - k];
+    }
+    history.push(next);
+
+    // Undo the differencing by accumulating onto the last observed value
+    if (d === 1) {
+      level += next + mean;
+    }
+    const predValue = d === 1 ? level : next + mean;
+    errorVariance += best.variance * psi[i - 1] * psi[i - 1];
+
+    predictions.push({
+      timestamp: lastTimestamp + i * interval,
+      value: predValue,
+      confidence: Math.max(0.3, 1 - (i / steps) * 0.6),
+      method: 'arima',
+      ...intervalsFromSpread(predValue, Math.sqrt(errorVariance)),
     });
   }
 
@@ -425,18 +747,22 @@ export function generateAIInsights(
 }
 
 // Calculate statistical metrics
-export function calculateStats(data: number[]) {
+export function calculateStats(data: ArrayLike<number>) {
   if (data.length === 0) {
     return null;
   }
 
-  const sorted = [...data].sort((a, b) => a - b);
-  const mean = data.reduce((a, b) => a + b, 0) / data.length;
+  // Typed-array sort is numeric and much faster on large series
+  const sorted = Float64Array.from(data).sort();
+  const running = createRunningStats();
+  for (let i = 0; i < data.length; i++) {
+    running.push(data[i]);
+  }
+  const mean = running.mean();
   const median = sorted[Math.floor(sorted.length / 2)];
   const min = sorted[0];
   const max = sorted[sorted.length - 1];
-  const variance =
-    data.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / data.length;
+  const variance = running.variance();
   const stdDev = Math.sqrt(variance);
 
   return {
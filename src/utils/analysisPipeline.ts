@@ -0,0 +1,148 @@
+import { AnomalyMethod, AnomalyResult, AIInsight, ForecastMethod, TimeSeries, TrendPrediction } from '../types';
+import {
+  detectAnomaliesZScore,
+  detectAnomaliesIQR,
+  detectAnomaliesML,
+  predictTrend,
+  predictHoltWinters,
+  predictARIMA,
+  simpleLinearPrediction,
+  generateAIInsights,
+} from './aiAnalysis';
+import { EXACT_QUANTILE_LIMIT } from './streamingStats';
+
+/**
+ * Analysis Pipeline
+ * Runs anomaly detection, forecasting and insights for every series.
+ * Shared by the analysis worker and the main-thread fallback.
+ */
+
+export interface AnalysisConfig {
+  runAnomalyDetection: boolean;
+  anomalyMethod: AnomalyMethod;
+  anomalySensitivity: number;
+  runTrendPrediction: boolean;
+  forecastMethod: ForecastMethod;
+  predictionSteps: number;
+  runAIInsights: boolean;
+}
+
+export interface AnalysisResult {
+  anomalies: AnomalyResult[];
+  predictions: TrendPrediction[];
+  insights: AIInsight[];
+  // Human-readable notes about fallbacks and approximations
+  notices: string[];
+}
+
+export interface AnalysisProgress {
+  completed: number;
+  total: number;
+  message: string;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  zscore: 'Z-Score',
+  iqr: 'IQR',
+  ml: 'Machine Learning',
+  linear: 'Linear',
+  'holt-winters': 'Holt-Winters',
+  arima: 'ARIMA',
+};
+
+// Prefix insight messages with the series name when several series are shown
+export function labelInsights(insights: AIInsight[], series: TimeSeries, multiSeries: boolean): AIInsight[] {
+  if (!multiSeries) {
+    return insights;
+  }
+  return insights.map((insight) => ({ ...insight, message: `${series.name}: ${insight.message}` }));
+}
+
+export async function runAnalysis(
+  series: TimeSeries[],
+  config: AnalysisConfig,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<AnalysisResult> {
+  const multiSeries = series.length > 1;
+  const result: AnalysisResult = { anomalies: [], predictions: [], insights: [], notices: [] };
+  const notice = (s: TimeSeries, message: string) => result.notices.push(multiSeries ? `${s.name}: ${message}` : message);
+
+  for (let i = 0; i < series.length; i++) {
+    const s = series[i];
+    const numericValues = s.points.map((p) => p.value);
+    onProgress?.({ completed: i, total: series.length, message: `Analyzing ${s.name}` });
+
+    let detectedAnomalies: AnomalyResult[] = [];
+
+    // Anomaly detection (lighter algorithms only)
+    if (config.runAnomalyDetection) {
+      switch (config.anomalyMethod) {
+        case 'zscore':
+          detectedAnomalies = detectAnomaliesZScore(s.points, config.anomalySensitivity);
+          break;
+        case 'iqr':
+          detectedAnomalies = detectAnomaliesIQR(s.points, config.anomalySensitivity);
+          break;
+        case 'ml':
+          detectedAnomalies = await detectAnomaliesML(s.points, config.anomalySensitivity / 10);
+          break;
+      }
+
+      if (config.anomalyMethod === 'iqr' && s.points.length > EXACT_QUANTILE_LIMIT) {
+        notice(s, `IQR bounds estimated with streaming quantiles over ${s.points.length} points.`);
+      }
+      const fallback = detectedAnomalies.find((a) => a.method !== config.anomalyMethod);
+      if (fallback) {
+        notice(
+          s,
+          `${METHOD_LABELS[config.anomalyMethod]} detection failed, used ${METHOD_LABELS[fallback.method]} instead.`
+        );
+      }
+    }
+
+    detectedAnomalies = detectedAnomalies.map((a) => ({ ...a, seriesId: s.id }));
+    result.anomalies.push(...detectedAnomalies);
+
+    // Trend prediction
+    let trendPredictions: TrendPrediction[] = [];
+    const steps = Math.min(config.predictionSteps, 10); // Limit predictions
+    if (config.runTrendPrediction && numericValues.length >= 5) {
+      switch (config.forecastMethod) {
+        case 'linear':
+          trendPredictions = simpleLinearPrediction(s.points, steps);
+          break;
+        case 'holt-winters':
+          trendPredictions = predictHoltWinters(s.points, steps);
+          break;
+        case 'arima':
+          trendPredictions = predictARIMA(s.points, steps);
+          break;
+        case 'ml':
+        default:
+          // The network only trains on the most recent window, so series length doesn't matter
+          trendPredictions = await predictTrend(s.points, steps);
+          break;
+      }
+
+      const used = trendPredictions[0]?.method;
+      if (used && used !== config.forecastMethod) {
+        notice(
+          s,
+          `${METHOD_LABELS[config.forecastMethod]} forecast unavailable for this data, used ${METHOD_LABELS[used]} instead.`
+        );
+      }
+    }
+    trendPredictions = trendPredictions.map((p) => ({ ...p, seriesId: s.id }));
+    result.predictions.push(...trendPredictions);
+
+    // AI insights (always generate when data exists)
+    if (config.runAIInsights) {
+      result.insights.push(
+        ...labelInsights(generateAIInsights(numericValues, detectedAnomalies, trendPredictions), s, multiSeries)
+      );
+    }
+  }
+
+  onProgress?.({ completed: series.length, total: series.length, message: 'Done' });
+  return result;
+}
@@ -0,0 +1,147 @@
+import { TimeSeries } from '../types';
+import { AnalysisConfig, AnalysisProgress, AnalysisResult, runAnalysis } from './analysisPipeline';
+
+/**
+ * Analysis Worker Client
+ * Sends analysis requests to a dedicated Web Worker and falls back to the
+ * main thread when workers are unavailable (e.g. plugin served from a CDN)
+ */
+
+export type AnalysisWorkerRequest = {
+  type: 'analyze';
+  id: number;
+  series: TimeSeries[];
+  config: AnalysisConfig;
+};
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; id: number; progress: AnalysisProgress }
+  | { type: 'result'; id: number; result: AnalysisResult }
+  | { type: 'error'; id: number; message: string };
+
+export interface AnalysisRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export interface AnalysisClient {
+  run(series: TimeSeries[], config: AnalysisConfig, options?: AnalysisRunOptions): Promise<AnalysisResult>;
+  dispose(): void;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Analysis cancelled', 'AbortError');
+}
+
+function spawnWorker(): Worker | null {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+
+  try {
+    return new Worker(new URL('../workers/analysis.worker.ts', import.meta.url));
+  } catch (error) {
+    console.warn('Analysis worker unavailable, running on the main thread:', error);
+    return null;
+  }
+}
+
+async function runOnMainThread(
+  series: TimeSeries[],
+  config: AnalysisConfig,
+  { signal, onProgress }: AnalysisRunOptions
+): Promise<AnalysisResult> {
+  const result = await runAnalysis(series, config, onProgress);
+  if (signal?.aborted) {
+    throw abortError();
+  }
+  return result;
+}
+
+// One client per panel: aborting a run terminates that panel's worker only
+export function createAnalysisClient(): AnalysisClient {
+  let worker: Worker | null = null;
+  let workerFailed = false;
+  let nextId = 0;
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const getWorker = () => {
+    if (!worker && !workerFailed) {
+      worker = spawnWorker();
+      workerFailed = worker === null;
+    }
+    return worker;
+  };
+
+  const run = (series: TimeSeries[], config: AnalysisConfig, options: AnalysisRunOptions = {}) => {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    const target = getWorker();
+    if (!target) {
+      return runOnMainThread(series, config, options);
+    }
+
+    const id = ++nextId;
+
+    return new Promise<AnalysisResult>((resolve, reject) => {
+      const cleanup = () => {
+        target.removeEventListener('message', onMessage);
+        target.removeEventListener('error', onError);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onMessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+        const message = event.data;
+        if (message.id !== id) {
+          return;
+        }
+
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.progress);
+            break;
+          case 'result':
+            cleanup();
+            resolve(message.result);
+            break;
+          case 'error':
+            cleanup();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      const onError = (event: ErrorEvent) => {
+        // The worker script failed to load or crashed; stop using workers for this panel
+        cleanup();
+        console.warn('Analysis worker failed, running on the main thread:', event.message);
+        terminate();
+        workerFailed = true;
+        runOnMainThread(series, config, options).then(resolve, reject);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        // Stop whatever the worker is doing (e.g. model training); a fresh one is spawned on the next run
+        terminate();
+        reject(abortError());
+      };
+
+      target.addEventListener('message', onMessage);
+      target.addEventListener('error', onError);
+      signal?.addEventListener('abort', onAbort);
+
+      const request: AnalysisWorkerRequest = { type: 'analyze', id, series, config };
+      target.postMessage(request);
+    });
+  };
+
+  return { run, dispose: terminate };
+}
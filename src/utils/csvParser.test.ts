@@ -0,0 +1,111 @@
+import { parseCSV } from './dataLoader';
+import { detectDelimiter, findColumn, parseNumber, readCSV, tokenizeCSV } from './csvParser';
+
+describe('tokenizeCSV', () => {
+  it('handles quotes, escaped quotes, delimiters and line breaks inside quotes', () => {
+    const records = tokenizeCSV('a,"b, ""c""","d\ne"\r\n1,2,3\r\n', ',');
+
+    expect(records).toEqual([
+      { line: 1, cells: ['a', 'b, "c"', 'd\ne'] },
+      { line: 3, cells: ['1', '2', '3'] },
+    ]);
+  });
+
+  it('skips blank lines and a byte order mark', () => {
+    expect(tokenizeCSV('\uFEFFtime,value\n\n1,2\n', ',').map((record) => record.cells)).toEqual([
+      ['time', 'value'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('readCSV', () => {
+  it('detects the delimiter that splits rows consistently', () => {
+    expect(detectDelimiter('"Date";"Close"\n"2024-12-31";"1.234,56"\n')).toBe(';');
+    expect(detectDelimiter('time\tvalue\n1\t2\n')).toBe('\t');
+  });
+
+  it('detects a header row', () => {
+    const table = readCSV('"Date";"Close"\n"2024-12-31";"1.234,56"\n');
+
+    expect(table.header).toEqual(['Date', 'Close']);
+    expect(table.rows).toHaveLength(1);
+  });
+
+  it('names the columns of headerless files', () => {
+    const table = readCSV('2024-01-01T00:00:00Z,1\n2024-01-01T00:01:00Z,2\n');
+
+    expect(table.header).toEqual(['Column 1', 'Column 2']);
+    expect(table.rows).toHaveLength(2);
+  });
+
+  it('detects the header of a quoted, semicolon-delimited export with day-first dates', () => {
+    const table = readCSV('"Datum";"Kurs"\n"31.12.2024";"1.234,56"\n');
+
+    expect(table.delimiter).toBe(';');
+    expect(table.header).toEqual(['Datum', 'Kurs']);
+    expect(table.rows).toHaveLength(1);
+  });
+
+  it('gives repeated header names a suffix', () => {
+    const table = readCSV('time,value,value,Value,\n1,2,3,4,5\n');
+
+    expect(table.header).toEqual(['time', 'value', 'value (2)', 'Value (3)', 'Column 5']);
+  });
+
+  it('reads files with more rows than fit in a call stack', () => {
+    const text = 'time,value\n' + Array.from({ length: 200000 }, (_, idx) => `${idx},${idx % 7}`).join('\n');
+
+    expect(readCSV(text).rows).toHaveLength(200000);
+  });
+});
+
+describe('findColumn', () => {
+  it('resolves names case-insensitively and 1-based numbers', () => {
+    const header = ['time', 'CPU', 'memory'];
+
+    expect(findColumn(header, 'cpu')).toBe(1);
+    expect(findColumn(header, '3')).toBe(2);
+    expect(findColumn(header, 'disk')).toBe(-1);
+  });
+});
+
+describe('parseNumber', () => {
+  it('accepts decimal commas only with other delimiters', () => {
+    expect(parseNumber('1.234,56', ';')).toBe(1234.56);
+    expect(parseNumber('1.5', ';')).toBe(1.5);
+    expect(parseNumber('1,5', ',')).toBeNaN();
+  });
+});
+
+describe('parseCSV', () => {
+  it('loads the selected value columns as series', () => {
+    const { series } = parseCSV('ts,cpu,memory\n2024-01-01T00:00:00Z,1,10\n2024-01-01T00:01:00Z,2,20\n', {
+      timeColumn: 'ts',
+      valueColumns: 'memory, cpu',
+    });
+
+    expect(series.map((s) => s.name)).toEqual(['memory', 'cpu']);
+    expect(series[0].points.map((point) => point.value)).toEqual([10, 20]);
+    expect(series[0].points[1].timestamp).toBe(Date.parse('2024-01-01T00:01:00Z'));
+  });
+
+  it('reports a missing column', () => {
+    expect(() => parseCSV('time,value\n1,2\n', { valueColumns: 'cpu' })).toThrow('Value column "cpu" not found');
+  });
+
+  it('loads a semicolon-delimited export with decimal commas', () => {
+    const { series, diagnostics } = parseCSV('"Datum";"Kurs"\n"31.12.2024";"1.234,56"\n"02.01.2025";"1.240,10"\n');
+
+    expect(series).toHaveLength(1);
+    expect(series[0].name).toBe('Kurs');
+    expect(series[0].points.map((point) => point.value)).toEqual([1234.56, 1240.1]);
+    expect(diagnostics.rowsRejected).toBe(0);
+  });
+
+  it('keeps repeated columns as separate series', () => {
+    const { series } = parseCSV('time,cpu,cpu\n2024-01-01T00:00:00Z,1,2\n2024-01-01T00:01:00Z,3,4\n');
+
+    expect(series.map((s) => s.id)).toEqual(['external/cpu', 'external/cpu (2)']);
+  });
+});
@@ -0,0 +1,205 @@
+import { CsvDelimiter, CsvHeaderMode } from '../types';
+import { createTimestampParser } from './timestampParser';
+
+/**
+ * CSV Reader
+ * RFC 4180 tokenizer with delimiter and header detection
+ */
+
+export interface CsvTable {
+  delimiter: string;
+  header: string[];
+  // Data rows with their 1-based line number in the source text
+  rows: Array<{ line: number; cells: string[] }>;
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+// Auto-detecting parser, for telling dates (including day-first ones) from header names
+const readDate = createTimestampParser();
+
+// Split text into records of fields. Handles quoted fields ("" escapes a quote),
+// delimiters and line breaks inside quotes, and LF / CRLF / CR line endings.
+export function tokenizeCSV(text: string, delimiter: string): Array<{ line: number; cells: string[] }> {
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(field);
+    // Skip blank lines
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    field = '';
+  };
+
+  // Drop a UTF-8 byte order mark (common in spreadsheet exports)
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      // Opening quote; whitespace before it is not part of the value
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || cells.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+// Pick the candidate that splits the first lines into the same number (> 1) of fields most often
+export function detectDelimiter(text: string): string {
+  const sample = text.slice(0, 64 * 1024);
+  let best = ',';
+  let bestScore = 0;
+
+  for (const candidate of DELIMITER_CANDIDATES) {
+    const widths = tokenizeCSV(sample, candidate)
+      .slice(0, 20)
+      .map((record) => record.cells.length);
+    if (widths.length === 0 || widths[0] < 2) {
+      continue;
+    }
+    const consistent = widths.filter((width) => width === widths[0]).length;
+    const score = consistent * 1000 + widths[0];
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function looksLikeData(cell: string, delimiter: string): boolean {
+  if (cell.trim() === '') {
+    return false;
+  }
+  return !isNaN(parseNumber(cell, delimiter)) || !isNaN(readDate(cell));
+}
+
+// A first row is a header when it has a text cell where the next row has a number or date
+export function detectHeader(first: string[], second: string[] | undefined, delimiter: string): boolean {
+  const isData = (cell: string) => looksLikeData(cell, delimiter);
+  if (!second) {
+    return !first.some(isData);
+  }
+  return first.some((cell, idx) => !isData(cell) && second[idx] !== undefined && isData(second[idx]));
+}
+
+// Blank names become "Column N"; repeats get a suffix ("value", "value (2)") so every column has its own name
+function uniqueHeader(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name, idx) => {
+    const base = name || `Column ${idx + 1}`;
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      unique = `${base} (${n})`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+export function readCSV(text: string, delimiter: CsvDelimiter = 'auto', headerMode: CsvHeaderMode = 'auto'): CsvTable {
+  const resolvedDelimiter = delimiter === 'auto' ? detectDelimiter(text) : delimiter;
+  const records = tokenizeCSV(text, resolvedDelimiter);
+  if (records.length === 0) {
+    return { delimiter: resolvedDelimiter, header: [], rows: [] };
+  }
+
+  const hasHeader =
+    headerMode === 'yes' ||
+    (headerMode === 'auto' && detectHeader(records[0].cells, records[1]?.cells, resolvedDelimiter));
+  // A loop rather than Math.max(...widths), which overflows the call stack on large files
+  let width = 0;
+  for (const record of records) {
+    width = Math.max(width, record.cells.length);
+  }
+
+  // Headerless files get "Column 1", "Column 2", ...; blank header cells are named the same way
+  const header = uniqueHeader(
+    Array.from({ length: width }, (_, idx) => (hasHeader ? records[0].cells[idx]?.trim() ?? '' : ''))
+  );
+
+  return {
+    delimiter: resolvedDelimiter,
+    header,
+    rows: hasHeader ? records.slice(1) : records,
+  };
+}
+
+// Resolve a column reference: a header name (case-insensitive) or a 1-based column number
+export function findColumn(header: string[], reference: string): number {
+  const wanted = reference.trim();
+  if (wanted === '') {
+    return -1;
+  }
+
+  const exact = header.findIndex((name) => name === wanted);
+  if (exact !== -1) {
+    return exact;
+  }
+  const lower = wanted.toLowerCase();
+  const caseless = header.findIndex((name) => name.toLowerCase() === lower);
+  if (caseless !== -1) {
+    return caseless;
+  }
+  if (/^\d+$/.test(wanted)) {
+    const position = parseInt(wanted, 10) - 1;
+    return position >= 0 && position < header.length ? position : -1;
+  }
+  return -1;
+}
+
+// Parse a numeric cell; with non-comma delimiters a decimal comma ("1.234,56") is accepted
+export function parseNumber(cell: string, delimiter: string): number {
+  let cleaned = cell.trim();
+  if (cleaned === '') {
+    return NaN;
+  }
+  if (delimiter !== ',' && /^[-+]?[\d.\s]*,\d+$/.test(cleaned)) {
+    cleaned = cleaned.replace(/[.\s]/g, '').replace(',', '.');
+  }
+  return Number(cleaned);
+}
@@ -0,0 +1,57 @@
+import { DataFrame, FieldType, getFieldDisplayName } from '@grafana/data';
+import { DataPoint, SeriesInfo, TimeSeries } from '../types';
+import { createSeries } from './dataProcessing';
+
+/**
+ * Grafana DataFrame Utilities
+ * Extract series from Grafana query results (main thread only)
+ */
+
+export function extractTimeSeries(data: DataFrame[]): TimeSeries[] {
+  const result: TimeSeries[] = [];
+
+  if (!data || data.length === 0) {
+    return result;
+  }
+
+  data.forEach((frame, frameIndex) => {
+    const timeField = frame.fields.find((f) => f.type === FieldType.time);
+    if (!timeField) {
+      return;
+    }
+
+    // Every numeric field of every frame is its own series
+    const valueFields = frame.fields.filter((f) => f.type === FieldType.number);
+
+    for (const valueField of valueFields) {
+      const labels = valueField.labels ?? {};
+      const labelKey = Object.keys(labels)
+        .sort()
+        .map((key) => `${key}=${labels[key]}`)
+        .join(',');
+      const info: SeriesInfo = {
+        id: `${frame.refId ?? frameIndex}/${frame.name ?? ''}/${valueField.name}{${labelKey}}`,
+        name: getFieldDisplayName(valueField, frame, data),
+        frameName: frame.name,
+        fieldName: valueField.name,
+        labels,
+      };
+
+      const points: DataPoint[] = [];
+      for (let i = 0; i < timeField.values.length; i++) {
+        const timestamp = timeField.values[i];
+        const value = valueField.values[i];
+
+        if (timestamp != null && value != null && !isNaN(value)) {
+          points.push({ timestamp, value });
+        }
+      }
+
+      if (points.length > 0) {
+        result.push(createSeries(info, points));
+      }
+    }
+  });
+
+  return result;
+}
@@ -1,165 +1,982 @@
-import { DataPoint } from '../types';
+import {
+  CsvDelimiter,
+  CsvHeaderMode,
+  DataFormat,
+  DataPoint,
+  ParserFormat,
+  RequestAuth,
+  RequestMethod,
+  SeriesInfo,
+  TimeSeries,
+} from '../types';
+import { createSeries } from './dataProcessing';
+import { CsvTable, findColumn, parseNumber, readCSV } from './csvParser';
+import { parseJSONPath, PathSegment, queryJSONPath } from './jsonPath';
+import { isSQLiteFile, runSqlQuery, SqlQueryResult } from './sqlEngine';
+import { detectFormat, DetectedFormat } from './formatDetection';
+import { createDiagnostics, DiagnosticsCollector, ParseDiagnostics } from './parseDiagnostics';
+import {
+  createTimestampParser,
+  epochDigitsToMillis,
+  EpochUnit,
+  epochUnitOf,
+  TimestampOptions,
+  TimestampParser,
+} from './timestampParser';
 
 /**
  * Universal Data Loader
- * Supports CSV, JSON, and SQL formats
+ * Supports CSV, JSON, NDJSON, SQL, Prometheus, and InfluxDB line protocol formats,
+ * or picks one of them automatically, plus live Server-Sent Events and WebSocket streams
  */
 
+export interface LoadResult {
+  series: TimeSeries[];
+  // What was read, kept and skipped, for the panel's parse report
+  diagnostics: ParseDiagnostics;
+}
+
+export interface FetchResult extends LoadResult {
+  format: ParserFormat;
+  // Set when the format was chosen by the `auto` format
+  detected?: DetectedFormat;
+  // The server answered 304; the result was parsed from the previous response
+  notModified?: boolean;
+}
+
+// Validators and body of the last GET response per URL and headers, for conditional re-fetches
+interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  contentType: string | null;
+  bytes: Uint8Array;
+  // Cleared when a request with If-None-Match / If-Modified-Since failed (e.g. a CORS preflight)
+  conditional: boolean;
+}
+
+const MAX_CACHED_RESPONSES = 8;
+const responseCache = new Map<string, CachedResponse>();
+
+function cacheResponse(url: string, entry: CachedResponse) {
+  responseCache.delete(url);
+  responseCache.set(url, entry);
+  // Maps iterate in insertion order, so the first key is the least recently stored
+  if (responseCache.size > MAX_CACHED_RESPONSES) {
+    responseCache.delete(responseCache.keys().next().value!);
+  }
+}
+
+// "Name: value" per line; blank lines and lines starting with # are skipped
+export function parseRequestHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text.split(/\r?\n/).forEach((line, idx) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      return;
+    }
+    const separator = trimmed.indexOf(':');
+    const name = separator > 0 ? trimmed.slice(0, separator).trim() : '';
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+      throw new Error(`Request header line ${idx + 1} is not "Name: value"`);
+    }
+    headers[name] = trimmed.slice(separator + 1).trim();
+  });
+  return headers;
+}
+
+// UTF-8 aware base64, for Basic credentials with non-ASCII characters
+function encodeBase64(text: string): string {
+  return btoa(Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join(''));
+}
+
+// Authorization header for the Authentication option; Basic uses "user:password"
+export function authorizationHeader(auth: RequestAuth, username: string, secret: string): string | null {
+  if (auth === 'bearer' && secret !== '') {
+    return `Bearer ${secret}`;
+  }
+  if (auth === 'basic' && (username !== '' || secret !== '')) {
+    return `Basic ${encodeBase64(`${username}:${secret}`)}`;
+  }
+  return null;
+}
+
+// fetch() rejects URLs with user info; credentials belong in the Authentication option
+function rejectUserInfo(url: string) {
+  if (/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*@/i.test(url.trim())) {
+    throw new Error('The data URL contains a user name or password; enter them under Authentication instead');
+  }
+}
+
+// Credentials go only to the origin written out in the Data URL, so a variable can't redirect them
+function checkCredentialOrigin(template: string, url: string) {
+  // Scheme and host, or the first segment of a relative URL (a variable there can hold a whole URL)
+  const authority = /^(?:[a-z][a-z0-9+.-]*:)?\/\/[^/?#]*|^[^/?#]*/i.exec(template.trim())?.[0] ?? '';
+  if (/\$|\[\[/.test(authority)) {
+    throw new Error('Credentials are not sent when a variable sets the scheme or host of the data URL');
+  }
+  const expected = new URL(template.trim(), window.location.href).origin;
+  const actual = new URL(url.trim(), window.location.href).origin;
+  if (actual !== expected) {
+    throw new Error(`Credentials are only sent to ${expected}; the data URL resolved to ${actual}`);
+  }
+}
+
+function conditionalHeaders(cached: CachedResponse | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (cached?.conditional && cached.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+  if (cached?.conditional && cached.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+  return headers;
+}
+
 export async function fetchDataFromUrl(
   url: string,
-  format: 'csv' | 'json' | 'sql'
-): Promise<DataPoint[]> {
+  format: DataFormat,
+  options: LoadOptions = {},
+  signal?: AbortSignal
+): Promise<FetchResult> {
   if (!url || url.trim() === '') {
-    return [];
+    return { series: [], diagnostics: createDiagnostics().build(), format: format === 'auto' ? 'csv' : format };
   }
 
   try {
-    const response = await fetch(url, {
-      mode: 'cors',
-      cache: 'no-cache',
-    });
+    // Built before fetching so a bad pattern, time zone or header fails fast
+    const parseTime = createTimestampParser(options.time);
+    const {
+      method = 'GET',
+      headers: headerText = '',
+      body = '',
+      auth = 'none',
+      username = '',
+      secret = '',
+      withCredentials = false,
+      urlTemplate = url,
+    } = options.request ?? {};
+    rejectUserInfo(url);
+    const requestHeaders = parseRequestHeaders(headerText);
+    // The Authentication option replaces an "authorization: ..." line (header names are case-insensitive)
+    const authorization = authorizationHeader(auth, username, secret);
+    if (authorization) {
+      Object.keys(requestHeaders)
+        .filter((name) => name.toLowerCase() === 'authorization')
+        .forEach((name) => delete requestHeaders[name]);
+      requestHeaders.Authorization = authorization;
+    }
+    if (Object.keys(requestHeaders).some((name) => name.toLowerCase() === 'authorization')) {
+      checkCredentialOrigin(urlTemplate, url);
+    }
+
+    // The browser cache is bypassed; GET revalidation uses the validators of our own last response
+    const cacheKey = method === 'GET' ? JSON.stringify([url, requestHeaders]) : null;
+    const cached = cacheKey ? responseCache.get(cacheKey) : undefined;
+    const headers = conditionalHeaders(cached);
+    const request = (extraHeaders: Record<string, string>) =>
+      fetch(url, {
+        method,
+        mode: 'cors',
+        cache: 'no-store',
+        // Cookies of the data server's own session (e.g. SSO)
+        credentials: withCredentials ? 'include' : 'same-origin',
+        headers: { ...requestHeaders, ...extraHeaders },
+        body: method === 'POST' ? body : undefined,
+        signal,
+      });
+
+    let response: Response;
+    try {
+      response = await request(headers);
+    } catch (error) {
+      // A server that rejects the conditional headers in the CORS preflight gets plain requests from now on
+      if (!cached || Object.keys(headers).length === 0 || signal?.aborted) {
+        throw error;
+      }
+      cached.conditional = false;
+      response = await request({});
+    }
 
+    if (response.status === 304 && cached) {
+      const result = await parseBytes(cached.bytes, url, cached.contentType, format, options, parseTime);
+      return { ...result, notModified: true };
+    }
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
-    const text = await response.text();
-
-    let parsedData: DataPoint[] = [];
-    switch (format) {
-      case 'csv':
-        parsedData = parseCSV(text);
-        break;
-      case 'json':
-        parsedData = parseJSON(text);
-        break;
-      case 'sql':
-        parsedData = parseSQL(text);
-        break;
-      default:
-        parsedData = [];
+    // SQLite database files are binary, everything else is text
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const contentType = response.headers.get('Content-Type');
+    // Cross-origin servers must list ETag in Access-Control-Expose-Headers for it to be readable
+    const etag = response.headers.get('ETag');
+    const lastModified = response.headers.get('Last-Modified');
+    if (cacheKey && (etag || lastModified)) {
+      cacheResponse(cacheKey, { etag, lastModified, contentType, bytes, conditional: cached?.conditional ?? true });
+    } else if (cacheKey) {
+      responseCache.delete(cacheKey);
     }
-
-    return parsedData;
+    return await parseBytes(bytes, url, contentType, format, options, parseTime);
   } catch (error) {
     // Re-throw so SimplePanel can catch and show error
     throw error;
   }
 }
 
-// CSV Parser
-export function parseCSV(csvText: string): DataPoint[] {
-  const points: DataPoint[] = [];
+// Parse a local file's contents; `name` and `contentType` play the part of the URL and
+// response header for the `auto` format
+export function parseDataFile(
+  bytes: Uint8Array,
+  name: string,
+  contentType: string | null,
+  format: DataFormat,
+  options: LoadOptions = {}
+): Promise<FetchResult> {
+  return parseBytes(bytes, name, contentType, format, options, createTimestampParser(options.time));
+}
+
+async function parseBytes(
+  bytes: Uint8Array,
+  location: string,
+  contentType: string | null,
+  format: DataFormat,
+  options: LoadOptions,
+  parseTime: TimestampParser
+): Promise<FetchResult> {
+  const text = new TextDecoder().decode(bytes);
+
+  const detected = format === 'auto' ? detectFormat(location, contentType, bytes, text) : undefined;
+  const parser = detected?.format ?? (format as ParserFormat);
+
+  let result: LoadResult;
+  switch (parser) {
+    case 'csv':
+      result = parseCSV(text, options.csv, parseTime);
+      break;
+    case 'json':
+      result = parseJSON(text, options.json, parseTime);
+      break;
+    case 'ndjson':
+      result = parseNDJSON(text, options.json, parseTime);
+      break;
+    case 'sql':
+      result = await loadSQL(bytes, options.sql, parseTime);
+      break;
+    case 'prometheus':
+      result = parsePrometheus(text);
+      break;
+    case 'influx':
+      result = parseInfluxLineProtocol(text, epochUnitOf(options.time?.format) ?? 'ns');
+      break;
+    default:
+      result = { series: [], diagnostics: createDiagnostics().build() };
+  }
+
+  // Drop columns that yielded no points
+  return {
+    series: result.series.filter((s) => s.points.length > 0),
+    diagnostics: result.diagnostics,
+    format: parser,
+    detected,
+  };
+}
+
+// Column references are header names or 1-based column numbers
+export interface CsvOptions {
+  delimiter?: CsvDelimiter;
+  header?: CsvHeaderMode;
+  // Empty picks a column named like time/timestamp/date, otherwise the first column
+  timeColumn?: string;
+  // Comma-separated; empty picks every numeric column other than the time column
+  valueColumns?: string;
+}
+
+// JSONPath expressions; time and value paths are relative to each record
+export interface JsonOptions {
+  // Empty means the document itself is the array of records
+  recordsPath?: string;
+  // Empty tries timestamp/time/date/ts/x
+  timePath?: string;
+  // Comma-separated; empty takes every numeric field of the record
+  valuePaths?: string;
+}
+
+export interface SqlOptions {
+  // Empty selects every row of the first table
+  query?: string;
+}
+
+// How the data URL is requested
+export interface RequestOptions {
+  method?: RequestMethod;
+  // "Name: value" per line
+  headers?: string;
+  // Sent with POST only
+  body?: string;
+  // Adds an Authorization header: a Bearer token (`secret`) or Basic `username:secret`
+  auth?: RequestAuth;
+  username?: string;
+  secret?: string;
+  // Send the browser's cookies for the data server on cross-origin requests
+  withCredentials?: boolean;
+  // The data URL before variables were filled in; an Authorization header is only sent to its origin
+  urlTemplate?: string;
+}
+
+export interface LoadOptions {
+  csv?: CsvOptions;
+  json?: JsonOptions;
+  sql?: SqlOptions;
+  request?: RequestOptions;
+  // How time cells are read; Prometheus times are fixed by the protocol
+  time?: TimestampOptions;
+}
+
+const TIME_COLUMN_NAMES = /^(time|timestamp|date|datetime|ts)$/i;
+
+// Wrap loaded points as a series of the external source
+function externalSeries(name: string, points: DataPoint[], info: Partial<SeriesInfo> = {}): TimeSeries {
+  return createSeries({ id: `external/${name}`, name, fieldName: name, ...info }, points);
+}
+
+// Groups (name, timestamp, value) samples into series, in the order names first appear;
+// `info` (e.g. labels) is taken from the first sample of each series
+function createSeriesCollector() {
+  const groups = new Map<string, { info?: Partial<SeriesInfo>; points: DataPoint[] }>();
+
+  return {
+    add(name: string, timestamp: number, value: number, info?: Partial<SeriesInfo>) {
+      let group = groups.get(name);
+      if (!group) {
+        group = { info, points: [] };
+        groups.set(name, group);
+      }
+      group.points.push({ timestamp, value, isAnomaly: false, isPrediction: false });
+    },
+    isEmpty: () => groups.size === 0,
+    build: (): TimeSeries[] => Array.from(groups, ([name, group]) => externalSeries(name, group.points, group.info)),
+  };
+}
+
+function isNumericColumn(table: CsvTable, column: number): boolean {
+  const sample = table.rows.slice(0, 50).filter((row) => (row.cells[column] ?? '').trim() !== '');
+  return sample.length > 0 && sample.every((row) => !isNaN(parseNumber(row.cells[column], table.delimiter)));
+}
 
+// CSV Parser - one series per value column
+export function parseCSV(
+  csvText: string,
+  options: CsvOptions = {},
+  parseTime: TimestampParser = createTimestampParser()
+): LoadResult {
+  const diagnostics = createDiagnostics();
   if (!csvText || csvText.trim() === '') {
-    return points;
+    return { series: [], diagnostics: diagnostics.build() };
+  }
+
+  const table = readCSV(csvText, options.delimiter, options.header);
+  if (table.rows.length === 0) {
+    diagnostics.note('The file has a header but no data rows.');
+    return { series: [], diagnostics: diagnostics.build() };
   }
 
-  const lines = csvText.trim().split('\n');
-  if (lines.length === 0) {
-    return points;
+  let timeColumn: number;
+  if (options.timeColumn?.trim()) {
+    timeColumn = findColumn(table.header, options.timeColumn);
+    if (timeColumn === -1) {
+      throw new Error(`Time column "${options.timeColumn}" not found in CSV header: ${table.header.join(', ')}`);
+    }
+  } else {
+    timeColumn = Math.max(0, table.header.findIndex((name) => TIME_COLUMN_NAMES.test(name.trim())));
+  }
+
+  const references = (options.valueColumns ?? '')
+    .split(',')
+    .map((reference) => reference.trim())
+    .filter((reference) => reference !== '');
+  let valueColumns: number[];
+  if (references.length > 0) {
+    valueColumns = references.map((reference) => {
+      const column = findColumn(table.header, reference);
+      if (column === -1) {
+        throw new Error(`Value column "${reference}" not found in CSV header: ${table.header.join(', ')}`);
+      }
+      return column;
+    });
+  } else {
+    valueColumns = table.header
+      .map((_, idx) => idx)
+      .filter((idx) => idx !== timeColumn && isNumericColumn(table, idx));
   }
 
-  // Skip header line
-  const dataLines = lines.slice(1);
+  if (valueColumns.length === 0) {
+    diagnostics.note(`No numeric value columns found (columns: ${table.header.join(', ')}).`);
+  }
 
-  for (const line of dataLines) {
-    const values = line.split(',').map((v) => v.trim());
+  const points: DataPoint[][] = valueColumns.map(() => []);
+  for (const row of table.rows) {
+    const location = `Line ${row.line}`;
+    diagnostics.read();
 
-    if (values.length >= 2) {
-      const timestamp = parseTimestamp(values[0]);
-      const value = parseFloat(values[1]);
+    const rawTime = row.cells[timeColumn];
+    if (rawTime === undefined || rawTime.trim() === '') {
+      diagnostics.reject(location, `missing time in column "${table.header[timeColumn]}"`);
+      continue;
+    }
+    const timestamp = resolveTimestamp(rawTime, parseTime, location, diagnostics);
 
-      if (!isNaN(timestamp) && !isNaN(value)) {
-        points.push({
-          timestamp,
-          value,
-          isAnomaly: false,
-          isPrediction: false,
-        });
+    let found = false;
+    valueColumns.forEach((column, idx) => {
+      const value = parseNumber(row.cells[column] ?? '', table.delimiter);
+      if (!isNaN(value)) {
+        points[idx].push({ timestamp, value, isAnomaly: false, isPrediction: false });
+        found = true;
       }
+    });
+
+    if (found) {
+      diagnostics.accept();
+    } else if (valueColumns.length > 0) {
+      diagnostics.reject(location, `no numeric value in ${valueColumns.map((c) => `"${table.header[c]}"`).join(', ')}`);
+    } else {
+      diagnostics.reject(location, 'no value column');
+    }
+  }
+
+  return {
+    series: valueColumns.map((column, idx) => externalSeries(table.header[column], points[idx])),
+    diagnostics: diagnostics.build(),
+  };
+}
+
+// JSON Parser - an array of records such as {timestamp, value}, {time, value} or {date, value};
+// every other numeric field becomes its own series unless value paths are given
+const JSON_TIME_KEYS = ['timestamp', 'time', 'date', 'ts', 'x'];
+
+function toNumber(raw: unknown): number {
+  if (typeof raw === 'number') {
+    return raw;
+  }
+  if (typeof raw === 'string' && raw.trim() !== '') {
+    return Number(raw);
+  }
+  return NaN;
+}
+
+// Readable series name for a value path: "$.metrics.cpu" -> "metrics.cpu"
+function pathLabel(path: string): string {
+  return path.replace(/^\$\.?/, '') || path;
+}
+
+type SeriesCollector = ReturnType<typeof createSeriesCollector>;
+
+interface RecordReader {
+  timePath: PathSegment[] | null;
+  valuePaths: Array<{ name: string; segments: PathSegment[] }>;
+  parseTime: TimestampParser;
+  // Time for records that have none; without it such records are rejected
+  missingTime: (() => number) | null;
+}
+
+function createRecordReader(
+  options: JsonOptions,
+  parseTime: TimestampParser,
+  missingTime: (() => number) | null = null
+): RecordReader {
+  return {
+    parseTime,
+    missingTime,
+    timePath: options.timePath?.trim() ? parseJSONPath(options.timePath) : null,
+    valuePaths: (options.valuePaths ?? '')
+      .split(',')
+      .map((path) => path.trim())
+      .filter((path) => path !== '')
+      .map((path) => ({ name: pathLabel(path), segments: parseJSONPath(path) })),
+  };
+}
+
+// Add one record's values to the collector and count it as accepted or rejected
+function readRecord(
+  item: unknown,
+  { timePath, valuePaths, parseTime, missingTime }: RecordReader,
+  collector: SeriesCollector,
+  location: string,
+  diagnostics: DiagnosticsCollector
+) {
+  diagnostics.read();
+  if (!item || typeof item !== 'object') {
+    diagnostics.reject(location, 'not a JSON object');
+    return;
+  }
+  const record = item as Record<string, unknown>;
+
+  // Explicit path, otherwise try different common field names (0 is a valid time)
+  let timeKey: string | undefined;
+  let rawTime: unknown;
+  if (timePath) {
+    rawTime = queryJSONPath(record, timePath)[0];
+    // A single-step path names a field of the record, which is then not a value
+    const [step] = timePath;
+    if (timePath.length === 1 && (step.type === 'key' || step.type === 'index')) {
+      timeKey = step.type === 'key' ? step.key : String(step.index);
+    }
+  } else {
+    timeKey = JSON_TIME_KEYS.find((key) => record[key] !== undefined && record[key] !== null && record[key] !== '');
+    rawTime = timeKey === undefined ? undefined : record[timeKey];
+  }
+  let timestamp: number;
+  if (typeof rawTime === 'number' || typeof rawTime === 'string') {
+    timestamp = resolveTimestamp(rawTime, parseTime, location, diagnostics);
+  } else if (missingTime) {
+    timestamp = missingTime();
+  } else {
+    diagnostics.reject(location, timePath ? 'time path matched no value' : `no ${JSON_TIME_KEYS.join('/')} field`);
+    return;
+  }
+
+  const entries: Array<[string, unknown]> =
+    valuePaths.length > 0
+      ? valuePaths.map(({ name, segments }) => [name, queryJSONPath(record, segments)[0]])
+      : Object.entries(record).filter(([key]) => key !== timeKey);
+
+  let found = false;
+  for (const [name, raw] of entries) {
+    const value = toNumber(raw);
+    if (!isNaN(value)) {
+      collector.add(name, timestamp, value);
+      found = true;
+    }
+  }
+
+  if (found) {
+    diagnostics.accept();
+  } else {
+    diagnostics.reject(location, valuePaths.length > 0 ? 'value paths matched no numbers' : 'no numeric fields');
+  }
+}
+
+export function parseJSON(
+  jsonText: string,
+  options: JsonOptions = {},
+  parseTime: TimestampParser = createTimestampParser()
+): LoadResult {
+  const collector = createSeriesCollector();
+  const diagnostics = createDiagnostics();
+  const data = JSON.parse(jsonText);
+
+  let records: unknown[];
+  if (options.recordsPath?.trim()) {
+    records = queryJSONPath(data, options.recordsPath);
+    // A path to the array itself ("$.data") rather than its elements ("$.data[*]")
+    if (records.length === 1 && Array.isArray(records[0])) {
+      records = records[0];
     }
+  } else if (Array.isArray(data)) {
+    records = data;
+  } else {
+    throw new Error('JSON root is not an array; set a records path such as $.data[*]');
   }
 
-  return points;
+  if (records.length === 0) {
+    diagnostics.note(options.recordsPath?.trim() ? `Records path "${options.recordsPath}" matched nothing.` : 'The array is empty.');
+  }
+
+  const reader = createRecordReader(options, parseTime);
+  records.forEach((item, idx) => readRecord(item, reader, collector, `Record ${idx + 1}`, diagnostics));
+
+  return { series: collector.build(), diagnostics: diagnostics.build() };
+}
+
+// NDJSON / JSON Lines Parser - one record per line; malformed lines are skipped and reported
+export function parseNDJSON(
+  text: string,
+  options: JsonOptions = {},
+  parseTime: TimestampParser = createTimestampParser()
+): LoadResult {
+  const collector = createSeriesCollector();
+  const diagnostics = createDiagnostics();
+  const reader = createRecordReader(options, parseTime);
+
+  text.split(/\r?\n/).forEach((line, idx) => {
+    if (line.trim() === '') {
+      return;
+    }
+
+    const location = `Line ${idx + 1}`;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      diagnostics.read();
+      diagnostics.reject(location, error instanceof Error ? error.message : String(error));
+      return;
+    }
+    readRecord(record, reader, collector, location, diagnostics);
+  });
+
+  return { series: collector.build(), diagnostics: diagnostics.build() };
+}
+
+// Live Streams - Server-Sent Events or WebSocket messages, each holding a JSON record,
+// an array of records, one record per line, or a bare number. Records are read with the
+// JSON options; ones without a time (and bare numbers) are stamped with the arrival time.
+export type StreamMode = 'sse' | 'websocket';
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting';
+
+export interface StreamHandlers {
+  // Series parsed from one message, and the parse report of the connection so far
+  onData(series: TimeSeries[], diagnostics: ParseDiagnostics): void;
+  onStatus(status: StreamStatus): void;
 }
 
-// JSON Parser - expects array of {timestamp, value} or {time, value} or {date, value}
-export function parseJSON(jsonText: string): DataPoint[] {
-  const points: DataPoint[] = [];
+const MIN_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 30000;
+
+function readStreamMessage(
+  message: string,
+  location: string,
+  reader: RecordReader,
+  collector: SeriesCollector,
+  diagnostics: DiagnosticsCollector
+) {
+  const text = message.trim();
+  if (text === '') {
+    return;
+  }
 
+  const number = Number(text);
+  if (Number.isFinite(number)) {
+    diagnostics.read();
+    collector.add('value', Date.now(), number);
+    diagnostics.accept();
+    return;
+  }
+
+  let data: unknown;
   try {
-    const data = JSON.parse(jsonText);
-
-    if (!Array.isArray(data)) {
-      return points;
-    }
-
-    for (const item of data) {
-      // Try different common field names
-      const timestamp =
-        parseTimestamp(item.timestamp || item.time || item.date || item.ts || item.x);
-      const value = parseFloat(
-        item.value || item.val || item.y || item.metric || item.amount
-      );
-
-      if (!isNaN(timestamp) && !isNaN(value)) {
-        points.push({
-          timestamp,
-          value,
-          isAnomaly: false,
-          isPrediction: false,
-        });
-      }
+    data = JSON.parse(text);
+  } catch (error) {
+    if (text.includes('\n')) {
+      text
+        .split(/\r?\n/)
+        .forEach((line, idx) => readStreamMessage(line, `${location}, line ${idx + 1}`, reader, collector, diagnostics));
+    } else {
+      diagnostics.read();
+      diagnostics.reject(location, error instanceof Error ? error.message : String(error));
+    }
+    return;
+  }
+
+  const records = Array.isArray(data) ? data : [data];
+  records.forEach((record, idx) =>
+    readRecord(record, reader, collector, records.length > 1 ? `${location}, record ${idx + 1}` : location, diagnostics)
+  );
+}
+
+// Connect and keep reconnecting (with backoff) until the returned function is called.
+// Throws right away on a bad timestamp pattern or time zone.
+export function connectDataStream(
+  url: string,
+  mode: StreamMode,
+  options: LoadOptions,
+  handlers: StreamHandlers
+): () => void {
+  const reader = createRecordReader(options.json ?? {}, createTimestampParser(options.time), () => Date.now());
+  const diagnostics = createDiagnostics();
+  let messages = 0;
+  let closed = false;
+  let source: EventSource | WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = MIN_RECONNECT_MS;
+
+  const handleMessage = (data: unknown) => {
+    messages++;
+    const collector = createSeriesCollector();
+    const text = typeof data === 'string' ? data : new TextDecoder().decode(data as ArrayBuffer);
+    readStreamMessage(text, `Message ${messages}`, reader, collector, diagnostics);
+    handlers.onData(collector.build(), diagnostics.build());
+  };
+
+  const retry = () => {
+    if (closed) {
+      return;
+    }
+    handlers.onStatus('reconnecting');
+    retryTimer = setTimeout(connect, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_MS);
+  };
+
+  const connect = () => {
+    handlers.onStatus('connecting');
+    if (mode === 'sse') {
+      const events = new EventSource(url);
+      events.onopen = () => {
+        retryDelay = MIN_RECONNECT_MS;
+        handlers.onStatus('open');
+      };
+      events.onmessage = (event) => handleMessage(event.data);
+      events.onerror = () => {
+        // EventSource retries dropped connections itself, but gives up on refused ones (HTTP errors)
+        if (events.readyState === EventSource.CLOSED) {
+          retry();
+        } else {
+          handlers.onStatus('reconnecting');
+        }
+      };
+      source = events;
+    } else {
+      const socket = new WebSocket(url);
+      socket.binaryType = 'arraybuffer';
+      socket.onopen = () => {
+        retryDelay = MIN_RECONNECT_MS;
+        handlers.onStatus('open');
+      };
+      socket.onmessage = (event) => handleMessage(event.data);
+      socket.onclose = retry;
+      source = socket;
     }
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    source?.close();
+  };
+}
+
+// SQL Loader - runs the dump or SQLite file in the in-browser SQLite engine. Plain-text
+// files that aren't executable SQL (e.g. psql output) fall back to the text parser below.
+export async function loadSQL(
+  bytes: Uint8Array,
+  options: SqlOptions = {},
+  parseTime: TimestampParser = createTimestampParser()
+): Promise<LoadResult> {
+  const query = options.query?.trim() ?? '';
+  let result: SqlQueryResult;
+
+  try {
+    result = await runSqlQuery(bytes, query);
   } catch (error) {
-    console.error('Error parsing JSON:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    if (query !== '' || isSQLiteFile(bytes)) {
+      throw new Error(`SQL query failed: ${message}`);
+    }
+    const diagnostics = createDiagnostics();
+    diagnostics.note(`Could not execute the file as SQL (${message}); read it as text instead.`);
+    return parseSQL(new TextDecoder().decode(bytes), diagnostics, parseTime);
+  }
+
+  const diagnostics = createDiagnostics();
+  return { series: sqlResultToSeries(result, diagnostics, parseTime), diagnostics: diagnostics.build() };
+}
+
+// The time column is the first one named like time/timestamp/date, otherwise the first column;
+// every other numeric column becomes a series
+export function sqlResultToSeries(
+  { columns, rows }: SqlQueryResult,
+  diagnostics: DiagnosticsCollector = createDiagnostics(),
+  parseTime: TimestampParser = createTimestampParser()
+): TimeSeries[] {
+  const collector = createSeriesCollector();
+  const timeColumn = Math.max(0, columns.findIndex((name) => TIME_COLUMN_NAMES.test(name)));
+
+  rows.forEach((row, idx) => {
+    const location = `Row ${idx + 1}`;
+    diagnostics.read();
+
+    const rawTime = row[timeColumn];
+    if (typeof rawTime !== 'number' && typeof rawTime !== 'string') {
+      diagnostics.reject(location, `missing time in column "${columns[timeColumn]}"`);
+      return;
+    }
+    const timestamp = resolveTimestamp(rawTime, parseTime, location, diagnostics);
+
+    let found = false;
+    row.forEach((raw, column) => {
+      const value = column === timeColumn ? NaN : toNumber(raw);
+      if (!isNaN(value)) {
+        collector.add(columns[column], timestamp, value);
+        found = true;
+      }
+    });
+
+    if (found) {
+      diagnostics.accept();
+    } else {
+      diagnostics.reject(location, 'no numeric columns');
+    }
+  });
+
+  return collector.build();
+}
+
+// Column names declared by CREATE TABLE statements, keyed by lower-case table name
+function parseTableColumns(sqlText: string): Map<string, string[]> {
+  const tables = new Map<string, string[]>();
+  // Table options after the column list (MySQL's ENGINE=..., CHARSET=...) are skipped
+  const createPattern = /CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([\w."`\[\]]+)\s*\(([\s\S]*?)\)[^;()]*;/gi;
+  let match;
+
+  while ((match = createPattern.exec(sqlText)) !== null) {
+    const columns = match[2]
+      // Commas inside a type such as decimal(10,2) don't separate columns
+      .split(/,(?![^(]*\))/)
+      .map((definition) => definition.trim().split(/\s+/)[0] ?? '')
+      .filter((name) => name !== '' && !/^(PRIMARY|UNIQUE|KEY|CONSTRAINT|FOREIGN|INDEX|CHECK)$/i.test(name))
+      .map(unquoteIdentifier);
+    tables.set(unquoteIdentifier(match[1]).toLowerCase(), columns);
+  }
+
+  return tables;
+}
+
+function unquoteIdentifier(name: string): string {
+  return name.trim().replace(/^[`"[]|[`"\]]$/g, '');
+}
+
+interface ValueTuple {
+  // Offset of the opening parenthesis in the SQL text
+  index: number;
+  cells: string[];
+}
+
+// Read the tuples of a VALUES list, `(1, 'a'), (2, 'b'), ...`, from `start` up to the end of the statement.
+// Quotes are removed from cells; '' and \' escape a quote, and commas inside quotes or calls such as
+// datetime('now', '-1 day') don't split cells.
+function readValueTuples(sqlText: string, start: number): { tuples: ValueTuple[]; end: number } {
+  const tuples: ValueTuple[] = [];
+  let i = start;
+
+  while (i < sqlText.length) {
+    while (i < sqlText.length && /[\s,]/.test(sqlText[i])) {
+      i++;
+    }
+    if (sqlText[i] !== '(') {
+      break;
+    }
+
+    const index = i;
+    const cells: string[] = [];
+    let cell = '';
+    let depth = 0;
+    for (i++; i < sqlText.length; i++) {
+      const char = sqlText[i];
+      if (char === "'" || char === '"' || char === '`') {
+        for (i++; i < sqlText.length; i++) {
+          if (char === "'" && sqlText[i] === '\\') {
+            cell += sqlText[++i] ?? '';
+          } else if (sqlText[i] === char && sqlText[i + 1] === char) {
+            cell += char;
+            i++;
+          } else if (sqlText[i] === char) {
+            break;
+          } else {
+            cell += sqlText[i];
+          }
+        }
+        continue;
+      }
+      if (char === ')' && depth === 0) {
+        break;
+      }
+      if (char === ',' && depth === 0) {
+        cells.push(cell.trim());
+        cell = '';
+        continue;
+      }
+      depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+      cell += char;
+    }
+    cells.push(cell.trim());
+    tuples.push({ index, cells });
+    i++;
   }
 
-  return points;
+  return { tuples, end: i };
+}
+
+function isNumericCell(cell: string): boolean {
+  return cell.trim() !== '' && !isNaN(Number(cell));
 }
 
-// SQL Parser - extracts data from INSERT statements or simple query results
-export function parseSQL(sqlText: string): DataPoint[] {
-  const points: DataPoint[] = [];
+// SQL Text Parser - extracts data from INSERT statements or simple query results;
+// the first column is the time, every other numeric column becomes a series
+export function parseSQL(
+  sqlText: string,
+  diagnostics: DiagnosticsCollector = createDiagnostics(),
+  parseTime: TimestampParser = createTimestampParser()
+): LoadResult {
+  const collector = createSeriesCollector();
 
   if (!sqlText || sqlText.trim() === '') {
-    return points;
+    return { series: [], diagnostics: diagnostics.build() };
   }
 
-  // Pattern 1: INSERT INTO ... VALUES (...)
-  const insertPattern = /INSERT\s+INTO\s+\w+.*?VALUES\s*\((.*?)\)/gi;
+  // Add one row of (time, value, value, ...) cells
+  const addRow = (cells: string[], columns: string[], location: string) => {
+    diagnostics.read();
+    if (cells.length < 2) {
+      diagnostics.reject(location, 'expected a time and at least one value');
+      return;
+    }
+    const timestamp = resolveTimestamp(cells[0], parseTime, location, diagnostics);
+
+    let found = false;
+    cells.slice(1).forEach((cell, idx) => {
+      const value = parseFloat(cell);
+      if (!isNaN(value)) {
+        collector.add(columns[idx + 1] || `Column ${idx + 2}`, timestamp, value);
+        found = true;
+      }
+    });
+
+    if (found) {
+      diagnostics.accept();
+    } else {
+      diagnostics.reject(location, 'no numeric values');
+    }
+  };
+
+  // Pattern 1: INSERT INTO table [(columns)] VALUES (...), (...), ...
+  const tables = parseTableColumns(sqlText);
+  const insertPattern = /INSERT\s+INTO\s+([\w."`\[\]]+)\s*(?:\(([^)]*)\))?\s*VALUES\s*/gi;
   let match;
+  let line = 1;
+  let scanned = 0;
 
   while ((match = insertPattern.exec(sqlText)) !== null) {
-    const values = match[1].split(',').map((v) => v.trim().replace(/['"]/g, ''));
-
-    if (values.length >= 2) {
-      const timestamp = parseTimestamp(values[0]);
-      const value = parseFloat(values[1]);
-
-      if (!isNaN(timestamp) && !isNaN(value)) {
-        points.push({
-          timestamp,
-          value,
-          isAnomaly: false,
-          isPrediction: false,
-        });
+    const columns = match[2]
+      ? match[2].split(',').map(unquoteIdentifier)
+      : tables.get(unquoteIdentifier(match[1]).toLowerCase()) ?? [];
+    const { tuples, end } = readValueTuples(sqlText, insertPattern.lastIndex);
+    insertPattern.lastIndex = end;
+
+    for (const { index, cells } of tuples) {
+      // Count line breaks up to this tuple incrementally
+      for (; scanned < index; scanned++) {
+        if (sqlText[scanned] === '\n') {
+          line++;
+        }
       }
+      addRow(cells, columns, `Line ${line}`);
     }
   }
 
   // Pattern 2: Query result format (pipe-separated or tab-separated)
-  if (points.length === 0) {
+  if (collector.isEmpty()) {
+    let columns: string[] = [];
     const lines = sqlText.split('\n');
-    for (const line of lines) {
-      // Skip SQL comments and empty lines
+    lines.forEach((line, idx) => {
+      // Skip SQL comments, empty lines and table borders such as "----+----"
       if (
         line.trim() === '' ||
         line.trim().startsWith('--') ||
-        line.trim().startsWith('/*')
+        line.trim().startsWith('/*') ||
+        /^[\s\-+|=]+$/.test(line)
       ) {
-        continue;
+        return;
       }
 
       // Try pipe-separated
@@ -175,76 +992,264 @@ export function parseSQL(sqlText: string): DataPoint[] {
         values = line.split(',').map((v) => v.trim());
       }
 
-      if (values.length >= 2) {
-        const timestamp = parseTimestamp(values[0]);
-        const value = parseFloat(values[1]);
-
-        if (!isNaN(timestamp) && !isNaN(value)) {
-          points.push({
-            timestamp,
-            value,
-            isAnomaly: false,
-            isPrediction: false,
-          });
-        }
+      // Psql-style tables start and end with a pipe
+      if (values.length > 2 && values[0] === '' && values[values.length - 1] === '') {
+        values = values.slice(1, -1);
       }
-    }
+
+      // A row without any numeric value column is a header naming the columns
+      if (values.length >= 2 && !values.slice(1).some(isNumericCell)) {
+        columns = values;
+        return;
+      }
+      addRow(values, columns, `Line ${idx + 1}`);
+    });
   }
 
-  return points;
+  return { series: collector.build(), diagnostics: diagnostics.build() };
 }
 
-function parseTimestamp(value: string | number): number {
-  // If already a number, try to use it
-  if (typeof value === 'number') {
-    // If timestamp is in seconds, convert to milliseconds
-    if (value < 10000000000) {
-      return value * 1000;
-    }
-    return value;
+// Prometheus series name in the usual notation: metric{label="value", ...}
+function prometheusSeriesName(metric: string, labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${value}"`);
+  if (pairs.length === 0) {
+    return metric || '{}';
+  }
+  return `${metric}{${pairs.join(', ')}}`;
+}
+
+function addPrometheusSample(
+  collector: SeriesCollector,
+  diagnostics: DiagnosticsCollector,
+  location: string,
+  sample: { metric: string; labels: Record<string, string>; timestamp: number; raw: string | number }
+) {
+  const { metric, labels, timestamp, raw } = sample;
+  diagnostics.read();
+
+  // Prometheus sends values as strings and may include NaN / +Inf
+  const value = Number(raw);
+  if (!Number.isFinite(timestamp)) {
+    diagnostics.reject(location, 'invalid timestamp');
+  } else if (!Number.isFinite(value)) {
+    diagnostics.reject(location, `non-finite value "${raw}"`);
+  } else {
+    collector.add(prometheusSeriesName(metric, labels), timestamp, value, { fieldName: metric || 'value', labels });
+    diagnostics.accept();
   }
+}
+
+// Prometheus Parser - /api/v1/query(_range) JSON responses or the text exposition format
+export function parsePrometheus(text: string): LoadResult {
+  return text.trim().startsWith('{') ? parsePrometheusQueryResponse(text) : parsePrometheusExposition(text);
+}
+
+interface PrometheusResult {
+  metric?: Record<string, string>;
+  values?: Array<[number, string]>;
+  value?: [number, string];
+}
+
+interface PrometheusResponse {
+  status?: string;
+  errorType?: string;
+  error?: string;
+  warnings?: string[];
+  data?: { resultType?: string; result?: PrometheusResult[] };
+}
+
+// Matrix (query_range) or vector (instant query) results; timestamps are in seconds
+export function parsePrometheusQueryResponse(jsonText: string): LoadResult {
+  const collector = createSeriesCollector();
+  const diagnostics = createDiagnostics();
+  const response: PrometheusResponse | null = JSON.parse(jsonText);
 
-  // Remove quotes if present
-  const cleaned = String(value).replace(/['"]/g, '').trim();
+  if (response?.status === 'error') {
+    throw new Error(`Prometheus error (${response.errorType ?? 'unknown'}): ${response.error ?? 'no message'}`);
+  }
+  const data = response?.data;
+  if (!data || !Array.isArray(data.result)) {
+    throw new Error('Not a Prometheus query response: missing data.result');
+  }
+  if (data.resultType !== 'matrix' && data.resultType !== 'vector') {
+    throw new Error(`Unsupported Prometheus result type "${data.resultType}"; expected matrix or vector`);
+  }
+
+  data.result.forEach((result, resultIdx) => {
+    const { __name__: metric = '', ...labels } = result.metric ?? {};
+    const samples = result.values ?? (result.value ? [result.value] : []);
+    samples.forEach(([seconds, raw], sampleIdx) => {
+      const location = `Result ${resultIdx + 1}, sample ${sampleIdx + 1}`;
+      addPrometheusSample(collector, diagnostics, location, {
+        metric,
+        labels,
+        timestamp: Math.round(Number(seconds) * 1000),
+        raw,
+      });
+    });
+  });
 
-  // Try parsing as ISO date
-  const isoDate = Date.parse(cleaned);
-  if (!isNaN(isoDate)) {
-    return isoDate;
+  for (const warning of response?.warnings ?? []) {
+    diagnostics.note(`Prometheus: ${warning}`);
   }
+  return { series: collector.build(), diagnostics: diagnostics.build() };
+}
 
-  // Try parsing as Unix timestamp
-  const timestamp = parseFloat(cleaned);
-  if (!isNaN(timestamp)) {
-    // If timestamp is in seconds, convert to milliseconds
-    if (timestamp < 10000000000) {
-      return timestamp * 1000;
+// Text exposition format: `metric{label="value"} 1.5 [timestamp_ms]`; samples without a
+// timestamp are taken at load time (several dumps can be concatenated to build history)
+export function parsePrometheusExposition(text: string): LoadResult {
+  const collector = createSeriesCollector();
+  const diagnostics = createDiagnostics();
+  const loadedAt = Date.now();
+  const samplePattern = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{(.*)\})?\s+(\S+)(?:\s+(-?\d+))?\s*$/;
+  const labelPattern = /([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"((?:[^"\\]|\\.)*)"/g;
+
+  text.split(/\r?\n/).forEach((line, idx) => {
+    const trimmed = line.trim();
+    // HELP / TYPE metadata and comments
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      return;
+    }
+
+    const location = `Line ${idx + 1}`;
+    const match = trimmed.match(samplePattern);
+    if (!match) {
+      diagnostics.read();
+      diagnostics.reject(location, 'not a Prometheus sample');
+      return;
+    }
+
+    const labels: Record<string, string> = {};
+    for (const [, key, value] of (match[2] ?? '').matchAll(labelPattern)) {
+      labels[key] = value.replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1');
+    }
+    const timestamp = match[4] !== undefined ? parseInt(match[4], 10) : loadedAt;
+    addPrometheusSample(collector, diagnostics, location, { metric: match[1], labels, timestamp, raw: match[3] });
+  });
+
+  return { series: collector.build(), diagnostics: diagnostics.build() };
+}
+
+// Split on `separator` outside double quotes, honouring backslash escapes
+function splitLineProtocol(text: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      current += char + text[i + 1];
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (char === separator && !inQuotes && parts.length < limit - 1) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
     }
-    return timestamp;
   }
+  parts.push(current);
 
-  // Try common date formats
-  const dateFormats = [
-    // YYYY-MM-DD HH:mm:ss
-    /(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2})/,
-    // DD/MM/YYYY HH:mm:ss
-    /(\d{2}\/\d{2}\/\d{4}\s+\d{2}:\d{2}:\d{2})/,
-    // MM/DD/YYYY HH:mm:ss
-    /(\d{2}\/\d{2}\/\d{4}\s+\d{2}:\d{2}:\d{2})/,
-  ];
+  return parts;
+}
+
+function unescapeLineProtocol(text: string): string {
+  return text.replace(/\\([,= "\\])/g, '$1');
+}
+
+// Numeric value of a line protocol field: floats, integers (`12i`), unsigned (`12u`)
+// and booleans (as 1/0); strings are not plottable
+function parseInfluxField(raw: string): number {
+  if (raw === '' || raw.startsWith('"')) {
+    return NaN;
+  }
+  if (/^(t|true)$/i.test(raw)) {
+    return 1;
+  }
+  if (/^(f|false)$/i.test(raw)) {
+    return 0;
+  }
+  return Number(raw.replace(/[iu]$/, ''));
+}
 
-  for (const pattern of dateFormats) {
-    const match = cleaned.match(pattern);
-    if (match) {
-      const parsed = Date.parse(match[1]);
-      if (!isNaN(parsed)) {
-        return parsed;
+// InfluxDB Line Protocol Parser - `measurement,tag=a field=1.5,other=2i 1700000000000000000`;
+// one series per measurement, field and tag set. Timestamps are integers in `precision` (nanoseconds unless
+// the writer used another precision); lines without one use the load time.
+export function parseInfluxLineProtocol(text: string, precision: EpochUnit = 'ns'): LoadResult {
+  const collector = createSeriesCollector();
+  const diagnostics = createDiagnostics();
+  const loadedAt = Date.now();
+
+  text.split(/\r?\n/).forEach((line, idx) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      return;
+    }
+
+    const location = `Line ${idx + 1}`;
+    diagnostics.read();
+
+    const [key, fieldSet, rawTime] = splitLineProtocol(trimmed, ' ', 3).map((part) => part.trim());
+    if (!key || !fieldSet) {
+      diagnostics.reject(location, 'expected "measurement[,tags] fields [timestamp]"');
+      return;
+    }
+
+    const [rawMeasurement, ...tagPairs] = splitLineProtocol(key, ',');
+    const measurement = unescapeLineProtocol(rawMeasurement);
+    const tags: Record<string, string> = {};
+    for (const pair of tagPairs) {
+      const [tagKey, tagValue = ''] = splitLineProtocol(pair, '=', 2);
+      tags[unescapeLineProtocol(tagKey)] = unescapeLineProtocol(tagValue);
+    }
+
+    const timestamp = rawTime ? epochDigitsToMillis(rawTime, precision) : loadedAt;
+    if (isNaN(timestamp)) {
+      diagnostics.reject(location, `invalid timestamp "${rawTime}"`);
+      return;
+    }
+
+    const tagLabel = Object.entries(tags)
+      .map(([tagKey, tagValue]) => `${tagKey}=${tagValue}`)
+      .join(', ');
+    let found = false;
+    for (const pair of splitLineProtocol(fieldSet, ',')) {
+      const [fieldKey, rawValue = ''] = splitLineProtocol(pair, '=', 2);
+      const field = unescapeLineProtocol(fieldKey);
+      const value = parseInfluxField(rawValue);
+      if (field && !isNaN(value)) {
+        const name = `${measurement}.${field}${tagLabel ? ` {${tagLabel}}` : ''}`;
+        collector.add(name, timestamp, value, { frameName: measurement, fieldName: field, labels: tags });
+        found = true;
       }
     }
-  }
+    if (found) {
+      diagnostics.accept();
+    } else {
+      diagnostics.reject(location, 'no numeric fields');
+    }
+  });
 
-  // Default to current time if parsing fails
-  return Date.now();
+  return { series: collector.build(), diagnostics: diagnostics.build() };
+}
+
+// Times that can't be parsed are stamped with the load time rather than dropping the row,
+// and counted in the parse report
+function resolveTimestamp(
+  raw: string | number,
+  parseTime: TimestampParser,
+  location: string,
+  diagnostics: DiagnosticsCollector
+): number {
+  const timestamp = parseTime(raw);
+  if (isNaN(timestamp)) {
+    diagnostics.timestampFallback(location);
+    return Date.now();
+  }
+  return timestamp;
 }
 
 export function validateDataUrl(url: string): boolean {
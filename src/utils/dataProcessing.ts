@@ -1,76 +1,43 @@
-import { DataFrame, FieldType } from '@grafana/data';
-import { DataPoint } from '../types';
+import type { DataFrame } from '@grafana/data';
+import { DataPoint, SeriesInfo, TimeSeries } from '../types';
 
 /**
  * Data Processing Utilities
- * Extract and process data from Grafana queries
+ * Process series data (also used inside the analysis worker, so no runtime Grafana imports)
  */
 
-export function extractTimeSeriesData(data: DataFrame[]): DataPoint[] {
-  const points: DataPoint[] = [];
-
-  if (!data || data.length === 0) {
-    return points;
-  }
-
-  for (const series of data) {
-    const timeField = series.fields.find(
-      (f) => f.type === FieldType.time
-    );
-    const valueField = series.fields.find(
-      (f) => f.type === FieldType.number
-    );
-
-    if (!timeField || !valueField) {
-      continue;
-    }
-
-    const timeValues = timeField.values;
-    const dataValues = valueField.values;
-
-    for (let i = 0; i < timeValues.length; i++) {
-      const timestamp = timeValues[i];
-      const value = dataValues[i];
-
-      if (timestamp != null && value != null && !isNaN(value)) {
-        points.push({
-          timestamp,
-          value,
-          isAnomaly: false,
-          isPrediction: false,
-        });
-      }
-    }
-  }
+export function createSeries(info: SeriesInfo, points: DataPoint[]): TimeSeries {
+  const tagged = points.map((point) => ({
+    ...point,
+    seriesId: info.id,
+    isAnomaly: false,
+    isPrediction: false,
+  }));
 
   // Sort by timestamp
-  points.sort((a, b) => a.timestamp - b.timestamp);
+  tagged.sort((a, b) => a.timestamp - b.timestamp);
 
-  return points;
+  return { ...info, points: tagged };
 }
 
-export function extractNumericValues(data: DataFrame[]): number[] {
-  const values: number[] = [];
-
-  if (!data || data.length === 0) {
-    return values;
+// Typical spacing between samples: median of the positive deltas, so that
+// occasional gaps or duplicate timestamps don't skew the result
+export function detectSamplingInterval(timestamps: number[], fallback = 60000): number {
+  const deltas: number[] = [];
+  for (let i = 1; i < timestamps.length; i++) {
+    const delta = timestamps[i] - timestamps[i - 1];
+    if (delta > 0 && isFinite(delta)) {
+      deltas.push(delta);
+    }
   }
 
-  for (const series of data) {
-    const valueFields = series.fields.filter(
-      (f) => f.type === FieldType.number
-    );
-
-    for (const field of valueFields) {
-      for (const value of field.values) {
-        if (value != null && !isNaN(value)) {
-          values.push(value);
-        }
-      }
-    }
+  if (deltas.length === 0) {
+    return fallback;
   }
 
-  return values;
+  deltas.sort((a, b) => a - b);
+  const mid = Math.floor(deltas.length / 2);
+  return deltas.length % 2 === 0 ? (deltas[mid - 1] + deltas[mid]) / 2 : deltas[mid];
 }
 
 export function getSeriesNames(data: DataFrame[]): string[] {
@@ -110,6 +77,7 @@ export function aggregateByTimeWindow(
         aggregated.push({
           timestamp: avgTimestamp,
           value: avgValue,
+          seriesId: currentWindow[0].seriesId,
           isAnomaly: currentWindow.some((p) => p.isAnomaly),
           isPrediction: false,
         });
@@ -132,6 +100,7 @@ export function aggregateByTimeWindow(
     aggregated.push({
       timestamp: avgTimestamp,
       value: avgValue,
+      seriesId: currentWindow[0].seriesId,
       isAnomaly: currentWindow.some((p) => p.isAnomaly),
       isPrediction: false,
     });
@@ -140,6 +109,67 @@ export function aggregateByTimeWindow(
   return aggregated;
 }
 
+// Largest-Triangle-Three-Buckets downsampling (Steinarsson, 2013). Keeps the visual shape of the
+// series with `threshold` points; anomalies are always kept so they never disappear from the chart.
+export function downsampleLTTB(points: DataPoint[], threshold: number): DataPoint[] {
+  const n = points.length;
+  if (threshold >= n || threshold < 3) {
+    return points;
+  }
+
+  const sampled: DataPoint[] = [points[0]];
+  const bucketSize = (n - 2) / (threshold - 2);
+  let selected = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.min(Math.floor((bucket + 1) * bucketSize) + 1, n - 1);
+
+    // Anomalies in this bucket replace the triangle pick
+    let keptAnomaly = false;
+    for (let i = start; i < end; i++) {
+      if (points[i].isAnomaly) {
+        sampled.push(points[i]);
+        selected = i;
+        keptAnomaly = true;
+      }
+    }
+    if (keptAnomaly) {
+      continue;
+    }
+
+    // Average of the next bucket is the third triangle vertex
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, n);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = end; i < nextEnd; i++) {
+      avgX += points[i].timestamp;
+      avgY += points[i].value;
+    }
+    avgX /= nextEnd - end;
+    avgY /= nextEnd - end;
+
+    const a = points[selected];
+    let maxArea = -1;
+    let pick = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (a.timestamp - avgX) * (points[i].value - a.value) - (a.timestamp - points[i].timestamp) * (avgY - a.value)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        pick = i;
+      }
+    }
+
+    sampled.push(points[pick]);
+    selected = pick;
+  }
+
+  sampled.push(points[n - 1]);
+  return sampled;
+}
+
 export function normalizeData(values: number[]): number[] {
   if (values.length === 0) {
     return [];
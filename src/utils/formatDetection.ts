@@ -0,0 +1,139 @@
+import { ParserFormat } from '../types';
+import { isSQLiteFile } from './sqlEngine';
+
+/**
+ * Format Detection
+ * Chooses a parser for the `auto` data format from the response Content-Type,
+ * the file extension in the URL (or local file name), and the content itself
+ */
+
+export interface DetectedFormat {
+  format: ParserFormat;
+  // What the choice was based on, for the panel's data status
+  reason: string;
+}
+
+export const FORMAT_LABELS: Record<ParserFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  sql: 'SQL',
+  prometheus: 'Prometheus',
+  influx: 'InfluxDB line protocol',
+};
+
+const CONTENT_TYPES: Array<[RegExp, ParserFormat]> = [
+  [/^application\/(x-)?(ndjson|jsonl|jsonlines|json-seq)/, 'ndjson'],
+  [/^(application|text)\/([\w.+-]+\+)?json/, 'json'],
+  [/^text\/(csv|tab-separated-values)/, 'csv'],
+  [/^application\/(sql|x-sql|vnd\.sqlite3|x-sqlite3)/, 'sql'],
+  [/^application\/openmetrics-text/, 'prometheus'],
+  // The exposition format is served as text/plain with a version parameter
+  [/^text\/plain;.*version=0\.0\.4/, 'prometheus'],
+];
+
+const EXTENSIONS: Record<string, ParserFormat> = {
+  csv: 'csv',
+  tsv: 'csv',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  sql: 'sql',
+  sqlite: 'sql',
+  sqlite3: 'sql',
+  db: 'sql',
+  prom: 'prometheus',
+  metrics: 'prometheus',
+  lp: 'influx',
+  influx: 'influx',
+  line: 'influx',
+};
+
+const SQL_STATEMENT = /^\s*(CREATE|INSERT|SELECT|BEGIN|PRAGMA|DROP|WITH)\b/i;
+const PROMETHEUS_METADATA = /^#\s*(HELP|TYPE)\s/;
+const PROMETHEUS_SAMPLE = /^[a-zA-Z_:][a-zA-Z0-9_:]*(\{.*\})?\s+\S+(\s+-?\d+)?$/;
+const INFLUX_LINE = /^[^\s#,][^\s]*\s+[^\s=]+=\S+.*?(\s+-?\d+)?$/;
+
+function extensionOf(url: string): string {
+  try {
+    const path = new URL(url, 'http://localhost').pathname;
+    const match = path.toLowerCase().match(/\.([a-z0-9]+)$/);
+    return match ? match[1] : '';
+  } catch {
+    return '';
+  }
+}
+
+function tryParseJSON(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+// JSON-family documents: a Prometheus API response, one JSON document, or one record per line
+function refineJSON(text: string): ParserFormat | null {
+  const whole = tryParseJSON(text);
+  if (whole.ok) {
+    const data = (whole.value as { data?: { resultType?: unknown } } | null)?.data;
+    return data && typeof data.resultType === 'string' ? 'prometheus' : 'json';
+  }
+  const firstLine = text.trimStart().split(/\r?\n/, 1)[0];
+  return tryParseJSON(firstLine).ok ? 'ndjson' : null;
+}
+
+// Guess from the first meaningful lines of the content
+export function sniffFormat(text: string): ParserFormat {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const json = refineJSON(text);
+    if (json) {
+      return json;
+    }
+  }
+
+  const lines = trimmed
+    .split(/\r?\n/, 50)
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+  if (lines.some((line) => PROMETHEUS_METADATA.test(line))) {
+    return 'prometheus';
+  }
+
+  const code = lines.filter((line) => !line.startsWith('--') && !line.startsWith('#'));
+  if (code.length === 0) {
+    return 'csv';
+  }
+  if (SQL_STATEMENT.test(code[0])) {
+    return 'sql';
+  }
+  if (code.every((line) => INFLUX_LINE.test(line) && !line.includes('{'))) {
+    return 'influx';
+  }
+  if (code.every((line) => PROMETHEUS_SAMPLE.test(line))) {
+    return 'prometheus';
+  }
+  return 'csv';
+}
+
+export function detectFormat(url: string, contentType: string | null, bytes: Uint8Array, text: string): DetectedFormat {
+  if (isSQLiteFile(bytes)) {
+    return { format: 'sql', reason: 'SQLite file header' };
+  }
+
+  const jsonFamily = (format: ParserFormat) => (format === 'json' ? refineJSON(text) ?? format : format);
+
+  const mediaType = (contentType ?? '').toLowerCase().replace(/\s+/g, '');
+  const byType = CONTENT_TYPES.find(([pattern]) => pattern.test(mediaType));
+  if (byType) {
+    return { format: jsonFamily(byType[1]), reason: `Content-Type ${mediaType.split(';')[0]}` };
+  }
+
+  const extension = extensionOf(url);
+  if (EXTENSIONS[extension]) {
+    return { format: jsonFamily(EXTENSIONS[extension]), reason: `.${extension} extension` };
+  }
+
+  return { format: sniffFormat(text), reason: 'content' };
+}
@@ -0,0 +1,79 @@
+import { parseJSON } from './dataLoader';
+import { parseJSONPath, queryJSONPath } from './jsonPath';
+
+describe('parseJSONPath', () => {
+  it('parses keys, indexes, wildcards and descendants', () => {
+    expect(parseJSONPath("$.data['result'][-1][*]..value")).toEqual([
+      { type: 'key', key: 'data' },
+      { type: 'key', key: 'result' },
+      { type: 'index', index: -1 },
+      { type: 'wildcard' },
+      { type: 'descendant', key: 'value' },
+    ]);
+  });
+
+  it('accepts paths without the leading $', () => {
+    expect(parseJSONPath('data.items')).toEqual(parseJSONPath('$.data.items'));
+  });
+
+  it('rejects malformed paths', () => {
+    expect(() => parseJSONPath('$.data[')).toThrow('Invalid JSONPath');
+  });
+});
+
+describe('queryJSONPath', () => {
+  const doc = { data: { result: [{ value: 1 }, { value: 2, nested: { value: 3 } }] } };
+  const records = Array.from({ length: 150000 }, (_, idx) => ({ time: idx, value: idx % 10 }));
+
+  it('evaluates keys, indexes and wildcards', () => {
+    expect(queryJSONPath(doc, '$.data.result[*].value')).toEqual([1, 2]);
+    expect(queryJSONPath(doc, '$.data.result[-1].value')).toEqual([2]);
+    expect(queryJSONPath(doc, '$.data.missing')).toEqual([]);
+  });
+
+  it('matches only keys of the document itself', () => {
+    expect(queryJSONPath(doc, '$.toString')).toEqual([]);
+    expect(queryJSONPath(doc, '$.constructor')).toEqual([]);
+    expect(queryJSONPath(doc, '$..hasOwnProperty')).toEqual([]);
+  });
+
+  it('finds descendants in document order', () => {
+    expect(queryJSONPath(doc, '$..value')).toEqual([1, 2, 3]);
+  });
+
+  it('expands a wildcard over large arrays', () => {
+    expect(queryJSONPath({ data: records }, '$.data[*]')).toHaveLength(150000);
+  });
+
+  it('finds descendants of large documents in document order', () => {
+    const values = queryJSONPath({ data: records }, '$..time');
+
+    expect(values).toHaveLength(150000);
+    expect(values.slice(0, 3)).toEqual([0, 1, 2]);
+  });
+
+  it('walks deeply nested documents', () => {
+    let nested: unknown = { value: 1 };
+    for (let i = 0; i < 20000; i++) {
+      nested = { child: nested };
+    }
+
+    expect(queryJSONPath(nested, '$..value')).toEqual([1]);
+  });
+});
+
+describe('parseJSON', () => {
+  it('reads records wrapped in a response object', () => {
+    const { series } = parseJSON(
+      JSON.stringify({ data: { items: [{ at: '2024-01-01T00:00:00Z', stats: { cpu: 0 } }] } }),
+      { recordsPath: '$.data.items[*]', timePath: 'at', valuePaths: '$.stats.cpu' }
+    );
+
+    expect(series).toHaveLength(1);
+    expect(series[0].points).toMatchObject([{ timestamp: Date.parse('2024-01-01T00:00:00Z'), value: 0 }]);
+  });
+
+  it('asks for a records path when the root is not an array', () => {
+    expect(() => parseJSON('{"data": []}')).toThrow('set a records path');
+  });
+});
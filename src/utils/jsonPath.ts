@@ -0,0 +1,125 @@
+/**
+ * JSONPath Subset
+ * Evaluates paths such as `$.data.result[*]`, `$['key'][0].value` and `$..points`
+ * Supported: `$`, `.name`, `['name']`, `[n]` (negative counts from the end), `[*]` / `.*`, and `..name`
+ */
+
+export type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; key: string | null };
+
+export function parseJSONPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = path.trim();
+
+  // The leading `$` is optional; "data.items" means "$.data.items"
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  } else if (rest !== '' && !rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = `.${rest}`;
+  }
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(/^\.\.(\*|[^.[\]]+)?/))) {
+      const key = match[1] && match[1] !== '*' ? match[1] : null;
+      segments.push({ type: 'descendant', key });
+    } else if ((match = rest.match(/^\.\*/)) || (match = rest.match(/^\[\s*\*\s*\]/))) {
+      segments.push({ type: 'wildcard' });
+    } else if ((match = rest.match(/^\.([^.[\]]+)/))) {
+      segments.push({ type: 'key', key: match[1] });
+    } else if ((match = rest.match(/^\[\s*(-?\d+)\s*\]/))) {
+      segments.push({ type: 'index', index: parseInt(match[1], 10) });
+    } else if ((match = rest.match(/^\[\s*(['"])(.*?)\1\s*\]/))) {
+      segments.push({ type: 'key', key: match[2] });
+    } else {
+      throw new Error(`Invalid JSONPath "${path}" near "${rest}"`);
+    }
+
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+function children(node: unknown): unknown[] {
+  if (Array.isArray(node)) {
+    return node;
+  }
+  if (node && typeof node === 'object') {
+    return Object.values(node);
+  }
+  return [];
+}
+
+// Append with a loop; push(...items) passes one argument per item and overflows the stack on large arrays
+function appendAll(target: unknown[], items: unknown[]) {
+  for (const item of items) {
+    target.push(item);
+  }
+}
+
+// `node` and every node below it, depth first; walked with a stack so deep documents can't overflow it
+function selfAndDescendants(node: unknown): unknown[] {
+  const result: unknown[] = [];
+  const pending = [node];
+  while (pending.length > 0) {
+    const current = pending.pop();
+    result.push(current);
+    const below = children(current);
+    for (let i = below.length - 1; i >= 0; i--) {
+      pending.push(below[i]);
+    }
+  }
+  return result;
+}
+
+// Own properties only, so `$.constructor` or `..toString` don't reach into the prototype
+function hasKey(node: unknown, key: string): node is Record<string, unknown> {
+  return !!node && typeof node === 'object' && !Array.isArray(node) && Object.prototype.hasOwnProperty.call(node, key);
+}
+
+function applySegment(nodes: unknown[], segment: PathSegment): unknown[] {
+  const result: unknown[] = [];
+
+  for (const node of nodes) {
+    switch (segment.type) {
+      case 'key':
+        if (hasKey(node, segment.key)) {
+          result.push(node[segment.key]);
+        }
+        break;
+      case 'index':
+        if (Array.isArray(node)) {
+          const idx = segment.index < 0 ? node.length + segment.index : segment.index;
+          if (idx >= 0 && idx < node.length) {
+            result.push(node[idx]);
+          }
+        }
+        break;
+      case 'wildcard':
+        appendAll(result, children(node));
+        break;
+      case 'descendant':
+        for (const candidate of selfAndDescendants(node)) {
+          if (segment.key === null) {
+            appendAll(result, children(candidate));
+          } else if (hasKey(candidate, segment.key)) {
+            result.push(candidate[segment.key]);
+          }
+        }
+        break;
+    }
+  }
+
+  return result;
+}
+
+// All values matched by `path`; pass the parsed segments when evaluating the same path repeatedly
+export function queryJSONPath(root: unknown, path: string | PathSegment[]): unknown[] {
+  const segments = typeof path === 'string' ? parseJSONPath(path) : path;
+  return segments.reduce<unknown[]>((nodes, segment) => applySegment(nodes, segment), [root]);
+}
@@ -0,0 +1,106 @@
+import { AnomalyResult, DataPoint, TimeSeries } from '../types';
+import { createOnlineAnomalyDetector, OnlineAnomalyDetector, OnlineAnomalyMethod } from './streamingStats';
+
+/**
+ * Live Data Buffer
+ * Keeps the latest points of streamed series in fixed-size ring buffers and flags
+ * anomalies as each point arrives
+ */
+
+export interface RingBuffer<T> {
+  push(item: T): void;
+  toArray(): T[];
+  size(): number;
+}
+
+// Fixed capacity; once full, each push overwrites the oldest item
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  const items: T[] = [];
+  let start = 0;
+
+  return {
+    push(item: T) {
+      if (items.length < capacity) {
+        items.push(item);
+      } else {
+        items[start] = item;
+        start = (start + 1) % capacity;
+      }
+    },
+    toArray: () => [...items.slice(start), ...items.slice(0, start)],
+    size: () => items.length,
+  };
+}
+
+export interface LiveDetection {
+  method: OnlineAnomalyMethod;
+  sensitivity: number;
+}
+
+export interface LiveSnapshot {
+  series: TimeSeries[];
+  // Anomalies still in the buffer, indexed by position in their series' points
+  anomalies: AnomalyResult[];
+}
+
+export interface LiveBuffer {
+  append(series: TimeSeries[]): void;
+  snapshot(): LiveSnapshot;
+}
+
+interface LiveEntry {
+  point: DataPoint;
+  score: number | null;
+}
+
+interface SeriesBuffer {
+  info: TimeSeries;
+  entries: RingBuffer<LiveEntry>;
+  detector: OnlineAnomalyDetector | null;
+}
+
+// `detection` null turns anomaly flagging off
+export function createLiveBuffer(capacity: number, detection: LiveDetection | null): LiveBuffer {
+  const buffers = new Map<string, SeriesBuffer>();
+
+  return {
+    append(series: TimeSeries[]) {
+      for (const s of series) {
+        let buffer = buffers.get(s.id);
+        if (!buffer) {
+          buffer = {
+            info: s,
+            entries: createRingBuffer<LiveEntry>(capacity),
+            detector: detection ? createOnlineAnomalyDetector(detection.method, detection.sensitivity) : null,
+          };
+          buffers.set(s.id, buffer);
+        }
+        for (const point of s.points) {
+          const score = buffer.detector ? buffer.detector.check(point.value) : null;
+          buffer.entries.push({ point: { ...point, isAnomaly: score !== null }, score });
+        }
+      }
+    },
+
+    snapshot() {
+      const anomalies: AnomalyResult[] = [];
+      const series = Array.from(buffers.values()).map(({ info, entries }) => {
+        const buffered = entries.toArray();
+        buffered.forEach(({ point, score }, index) => {
+          if (score !== null) {
+            anomalies.push({
+              index,
+              value: point.value,
+              timestamp: point.timestamp,
+              score,
+              method: detection?.method ?? 'zscore',
+              seriesId: info.id,
+            });
+          }
+        });
+        return { ...info, points: buffered.map(({ point }) => point) };
+      });
+      return { series, anomalies };
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { PersistedDataFile } from '../types';
+
+/**
+ * Local Data Files
+ * Reads files dropped on (or picked in) the panel, and stores small ones in the panel options
+ */
+
+export interface LocalDataFile {
+  name: string;
+  // MIME type reported by the browser; often empty for .sql, .ndjson, ...
+  type: string;
+  bytes: Uint8Array;
+}
+
+// Files up to this size can be saved in the dashboard JSON (base64 grows them by a third)
+export const MAX_PERSISTED_FILE_BYTES = 256 * 1024;
+
+// File picker filter; any other file can still be dropped
+export const ACCEPTED_FILE_TYPES = '.csv,.tsv,.txt,.json,.ndjson,.jsonl,.sql,.sqlite,.sqlite3,.db,.prom,.metrics,.lp';
+
+export async function readLocalFile(file: File): Promise<LocalDataFile> {
+  return { name: file.name, type: file.type, bytes: new Uint8Array(await file.arrayBuffer()) };
+}
+
+export function canPersistFile(file: LocalDataFile): boolean {
+  return file.bytes.length <= MAX_PERSISTED_FILE_BYTES;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // Convert in chunks; spreading a large array into fromCharCode overflows the stack
+  const CHUNK_SIZE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + CHUNK_SIZE)));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(content: string): Uint8Array {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function toPersistedFile(file: LocalDataFile): PersistedDataFile {
+  return { name: file.name, type: file.type, size: file.bytes.length, content: toBase64(file.bytes) };
+}
+
+// Null when the saved content is damaged (e.g. a hand-edited dashboard JSON)
+export function fromPersistedFile(saved: PersistedDataFile): LocalDataFile | null {
+  try {
+    return { name: saved.name, type: saved.type, bytes: fromBase64(saved.content) };
+  } catch {
+    return null;
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
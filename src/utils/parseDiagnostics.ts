@@ -0,0 +1,81 @@
+/**
+ * Parse Diagnostics
+ * Counts what each external data loader read, kept and skipped, and why
+ */
+
+export interface RejectedRow {
+  // "Line 12", "Record 4", "Row 7", ...
+  location: string;
+  reason: string;
+}
+
+export interface ParseDiagnostics {
+  rowsRead: number;
+  rowsAccepted: number;
+  rowsRejected: number;
+  // The first MAX_REPORTED_ROWS rejections; rowsRejected has the full count
+  rejected: RejectedRow[];
+  // Rows whose time could not be parsed and were stamped with the load time instead
+  timestampFallbacks: number;
+  fallbackLocations: string[];
+  // Whole-file remarks (parser fallbacks, server warnings, ...)
+  notes: string[];
+}
+
+const MAX_REPORTED_ROWS = 50;
+
+export interface DiagnosticsCollector {
+  read(): void;
+  accept(): void;
+  reject(location: string, reason: string): void;
+  timestampFallback(location: string): void;
+  note(message: string): void;
+  build(): ParseDiagnostics;
+}
+
+export function createDiagnostics(): DiagnosticsCollector {
+  const diagnostics: ParseDiagnostics = {
+    rowsRead: 0,
+    rowsAccepted: 0,
+    rowsRejected: 0,
+    rejected: [],
+    timestampFallbacks: 0,
+    fallbackLocations: [],
+    notes: [],
+  };
+
+  return {
+    read() {
+      diagnostics.rowsRead++;
+    },
+    accept() {
+      diagnostics.rowsAccepted++;
+    },
+    reject(location: string, reason: string) {
+      diagnostics.rowsRejected++;
+      if (diagnostics.rejected.length < MAX_REPORTED_ROWS) {
+        diagnostics.rejected.push({ location, reason });
+      }
+    },
+    timestampFallback(location: string) {
+      diagnostics.timestampFallbacks++;
+      if (diagnostics.fallbackLocations.length < MAX_REPORTED_ROWS) {
+        diagnostics.fallbackLocations.push(location);
+      }
+    },
+    note(message: string) {
+      diagnostics.notes.push(message);
+    },
+    build: () => diagnostics,
+  };
+}
+
+// Anything worth showing beyond "every row was read"
+export function hasIssues(diagnostics: ParseDiagnostics): boolean {
+  return (
+    diagnostics.rowsRejected > 0 ||
+    diagnostics.timestampFallbacks > 0 ||
+    diagnostics.notes.length > 0 ||
+    diagnostics.rowsAccepted === 0
+  );
+}
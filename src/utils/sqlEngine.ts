@@ -0,0 +1,85 @@
+import type { QueryExecResult, SqlJsStatic } from 'sql.js';
+
+/**
+ * In-Browser SQL Engine
+ * Loads SQL dumps or SQLite database files into sql.js (SQLite compiled to WebAssembly)
+ * and runs a SELECT query against them
+ */
+
+export interface SqlQueryResult {
+  columns: string[];
+  rows: unknown[][];
+  // Table the default query read from, when no query was given
+  table?: string;
+}
+
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+let engine: Promise<SqlJsStatic> | null = null;
+
+// sql.js and its WebAssembly binary are only downloaded the first time SQL data is loaded
+export function loadSqlEngine(): Promise<SqlJsStatic> {
+  if (!engine) {
+    engine = import('sql.js')
+      .then(({ default: initSqlJs }) =>
+        initSqlJs({
+          locateFile: () => new URL('sql.js/dist/sql-wasm-browser.wasm', import.meta.url).toString(),
+        })
+      )
+      .catch((error) => {
+        // Allow a retry on the next load (e.g. after a network hiccup)
+        engine = null;
+        throw error;
+      });
+  }
+  return engine;
+}
+
+export function isSQLiteFile(bytes: Uint8Array): boolean {
+  if (bytes.length < SQLITE_HEADER.length) {
+    return false;
+  }
+  for (let i = 0; i < SQLITE_HEADER.length; i++) {
+    if (bytes[i] !== SQLITE_HEADER.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Run `query` against a SQLite file or a SQL script (CREATE TABLE / INSERT ...).
+// Without a query, every row of the first table is returned.
+export async function runSqlQuery(source: Uint8Array, query: string): Promise<SqlQueryResult> {
+  const SQL = await loadSqlEngine();
+  const db = isSQLiteFile(source) ? new SQL.Database(source) : new SQL.Database();
+
+  try {
+    if (!isSQLiteFile(source)) {
+      db.exec(new TextDecoder().decode(source));
+    }
+
+    let table: string | undefined;
+    let sql = query.trim();
+    if (sql === '') {
+      const tables = db.exec(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY rowid"
+      );
+      table = tables[0]?.values[0]?.[0] as string | undefined;
+      if (!table) {
+        throw new Error('The SQL data contains no tables');
+      }
+      sql = `SELECT * FROM ${quoteIdentifier(table)}`;
+    }
+
+    // A script may hold several statements; the last one that returns rows is the result
+    const results: QueryExecResult[] = db.exec(sql);
+    const last = results[results.length - 1];
+    return { columns: last?.columns ?? [], rows: last?.values ?? [], table };
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,175 @@
+import { DataPoint } from '../types';
+
+/**
+ * Streaming Statistics
+ * Single-pass (online) estimators that work on arbitrarily long series
+ * without copying them into intermediate arrays
+ */
+
+// Above this many values IQR bounds come from streaming quantile estimates instead of a full sort
+export const EXACT_QUANTILE_LIMIT = 50000;
+
+export interface RunningStats {
+  push(value: number): void;
+  count(): number;
+  mean(): number;
+  variance(): number;
+  min(): number;
+  max(): number;
+}
+
+// Welford's algorithm: numerically stable running mean and (population) variance
+export function createRunningStats(): RunningStats {
+  let n = 0;
+  let mean = 0;
+  let m2 = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  return {
+    push(value: number) {
+      n += 1;
+      const delta = value - mean;
+      mean += delta / n;
+      m2 += delta * (value - mean);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    },
+    count: () => n,
+    mean: () => mean,
+    variance: () => (n > 0 ? m2 / n : 0),
+    min: () => min,
+    max: () => max,
+  };
+}
+
+export interface QuantileEstimator {
+  push(value: number): void;
+  value(): number;
+}
+
+// P-square algorithm (Jain & Chlamtac, 1985): estimates one quantile with five markers in O(1) memory
+export function createQuantileEstimator(p: number): QuantileEstimator {
+  const heights: number[] = [];
+  const positions = [1, 2, 3, 4, 5];
+  const desired = [1, 1 + 2 * p, 1 + 4 * p, 3 + 2 * p, 5];
+  const increments = [0, p / 2, p, (1 + p) / 2, 1];
+
+  const parabolic = (i: number, d: number) =>
+    heights[i] +
+    (d / (positions[i + 1] - positions[i - 1])) *
+      ((positions[i] - positions[i - 1] + d) * ((heights[i + 1] - heights[i]) / (positions[i + 1] - positions[i])) +
+        (positions[i + 1] - positions[i] - d) * ((heights[i] - heights[i - 1]) / (positions[i] - positions[i - 1])));
+
+  const linear = (i: number, d: number) =>
+    heights[i] + (d * (heights[i + d] - heights[i])) / (positions[i + d] - positions[i]);
+
+  return {
+    push(value: number) {
+      // Collect the first five observations exactly
+      if (heights.length < 5) {
+        heights.push(value);
+        heights.sort((a, b) => a - b);
+        return;
+      }
+
+      let k: number;
+      if (value < heights[0]) {
+        heights[0] = value;
+        k = 0;
+      } else if (value >= heights[4]) {
+        heights[4] = value;
+        k = 3;
+      } else {
+        k = 0;
+        while (k < 3 && value >= heights[k + 1]) {
+          k++;
+        }
+      }
+
+      for (let i = k + 1; i < 5; i++) {
+        positions[i] += 1;
+      }
+      for (let i = 0; i < 5; i++) {
+        desired[i] += increments[i];
+      }
+
+      // Nudge the three middle markers towards their desired positions
+      for (let i = 1; i < 4; i++) {
+        const offset = desired[i] - positions[i];
+        if (
+          (offset >= 1 && positions[i + 1] - positions[i] > 1) ||
+          (offset <= -1 && positions[i - 1] - positions[i] < -1)
+        ) {
+          const d = offset >= 0 ? 1 : -1;
+          const candidate = parabolic(i, d);
+          heights[i] = heights[i - 1] < candidate && candidate < heights[i + 1] ? candidate : linear(i, d);
+          positions[i] += d;
+        }
+      }
+    },
+    value() {
+      if (heights.length === 0) {
+        return NaN;
+      }
+      if (heights.length < 5) {
+        return heights[Math.min(heights.length - 1, Math.floor(heights.length * p))];
+      }
+      return heights[2];
+    },
+  };
+}
+
+export function toFloat64Array(points: DataPoint[]): Float64Array {
+  const values = new Float64Array(points.length);
+  for (let i = 0; i < points.length; i++) {
+    values[i] = points[i].value;
+  }
+  return values;
+}
+
+export type OnlineAnomalyMethod = 'zscore' | 'iqr';
+
+export interface OnlineAnomalyDetector {
+  // Anomaly score of `value` against everything seen before it, or null when it is normal;
+  // the value is then added to the baseline
+  check(value: number): number | null;
+}
+
+// Values needed before anything is flagged
+const MIN_BASELINE = 10;
+
+// Incremental Z-Score / IQR detection for live data: each value is judged against the
+// running mean and variance (Welford) or the P-square quartile estimates of the values before it
+export function createOnlineAnomalyDetector(method: OnlineAnomalyMethod, sensitivity: number): OnlineAnomalyDetector {
+  const running = createRunningStats();
+  const q1 = createQuantileEstimator(0.25);
+  const q3 = createQuantileEstimator(0.75);
+
+  const score = (value: number): number | null => {
+    if (running.count() < MIN_BASELINE) {
+      return null;
+    }
+    if (method === 'iqr') {
+      const iqr = q3.value() - q1.value();
+      const lowerBound = q1.value() - sensitivity * iqr;
+      const upperBound = q3.value() + sensitivity * iqr;
+      if (value >= lowerBound && value <= upperBound) {
+        return null;
+      }
+      return Math.min(Math.abs(value - lowerBound), Math.abs(value - upperBound)) / (iqr || 1);
+    }
+    const zScore = Math.abs((value - running.mean()) / (Math.sqrt(running.variance()) || 1));
+    return zScore > sensitivity ? zScore : null;
+  };
+
+  return {
+    check(value: number) {
+      const result = score(value);
+      running.push(value);
+      q1.push(value);
+      q3.push(value);
+      return result;
+    },
+  };
+}
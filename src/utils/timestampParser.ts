@@ -0,0 +1,263 @@
+import { DateTime, Info, Zone } from 'luxon';
+import { TimestampFormat } from '../types';
+
+/**
+ * Timestamp Parser
+ * Turns time cells into epoch milliseconds: ISO 8601, Unix epochs, day-first and
+ * month-first dates, or an explicit pattern such as `DD.MM.YYYY HH:mm`
+ */
+
+export interface TimestampOptions {
+  format?: TimestampFormat;
+  // Moment-style pattern for the `custom` format (the same tokens as Grafana's date formats)
+  pattern?: string;
+  // Zone of times written without an offset: '' (browser), 'UTC', 'UTC+3' or an IANA name
+  timeZone?: string;
+}
+
+// Epoch milliseconds, or NaN when the value can't be read
+export type TimestampParser = (value: string | number) => number;
+
+export type EpochUnit = 's' | 'ms' | 'us' | 'ns';
+
+const EPOCH_SCALE: Record<EpochUnit, number> = { s: 1e3, ms: 1, us: 1e-3, ns: 1e-6 };
+
+// Optional time of day after a date: " 14:30", "T14:30:05", " 2:30:05.250 PM"
+const TIME_OF_DAY = String.raw`(?:[\sT,]+(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,3}))?)?\s*([AaPp][Mm])?)?`;
+// 31.12.2024 and 31-12-2024 are always day-first
+const DAY_FIRST_DATE = new RegExp(String.raw`^(\d{1,2})[.-](\d{1,2})[.-](\d{4})${TIME_OF_DAY}$`);
+// 12/31/2024 or 31/12/2024: day-first only when the first number can't be a month
+const SLASHED_DATE = new RegExp(String.raw`^(\d{1,2})/(\d{1,2})/(\d{4})${TIME_OF_DAY}$`);
+const YEAR_FIRST_SLASHED_DATE = new RegExp(String.raw`^(\d{4})/(\d{1,2})/(\d{1,2})${TIME_OF_DAY}$`);
+
+// Moment-style pattern tokens and their luxon equivalents; [text] is literal
+const PATTERN_TOKENS = /\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z|X|x|[A-Za-z]|[^A-Za-z[]+/g;
+const LUXON_TOKENS: Record<string, string> = {
+  YYYY: 'yyyy',
+  YY: 'yy',
+  MMMM: 'MMMM',
+  MMM: 'MMM',
+  MM: 'MM',
+  M: 'M',
+  DD: 'dd',
+  D: 'd',
+  HH: 'HH',
+  H: 'H',
+  hh: 'hh',
+  h: 'h',
+  mm: 'mm',
+  m: 'm',
+  ss: 'ss',
+  s: 's',
+  SSS: 'SSS',
+  A: 'a',
+  a: 'a',
+  Z: 'ZZ',
+  ZZ: 'ZZZ',
+  X: 'X',
+  x: 'x',
+};
+
+// Scale a Unix epoch to milliseconds by its magnitude: seconds, milliseconds,
+// microseconds or nanoseconds (each covers dates from 1970 to well past 2200)
+export function epochToMillis(value: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude < 1e10) {
+    return value * 1000;
+  }
+  if (magnitude < 1e14) {
+    return value;
+  }
+  if (magnitude < 1e17) {
+    return Math.round(value / 1e3);
+  }
+  return Math.round(value / 1e6);
+}
+
+// Integer epoch given as digits in a known unit
+export function epochDigitsToMillis(digits: string, unit: EpochUnit): number {
+  if (!/^-?\d+$/.test(digits)) {
+    return NaN;
+  }
+  // Slicing off the sub-millisecond digits avoids the rounding of 19-digit numbers
+  if (unit === 'ns' && digits.replace('-', '').length > 6) {
+    return Number(digits.slice(0, -6));
+  }
+  return Math.round(Number(digits) * EPOCH_SCALE[unit]);
+}
+
+function resolveZone(timeZone = ''): Zone | 'local' {
+  const name = timeZone.trim();
+  if (name === '' || /^(browser|local)$/i.test(name)) {
+    return 'local';
+  }
+  const zone = Info.normalizeZone(name);
+  if (!zone || !zone.isValid) {
+    throw new Error(`Unknown time zone "${name}"; use an IANA name such as Europe/Istanbul, or UTC`);
+  }
+  return zone;
+}
+
+// Convert a moment-style pattern ("DD.MM.YYYY HH:mm") to luxon's format syntax
+export function toLuxonPattern(pattern: string): string {
+  return (pattern.match(PATTERN_TOKENS) ?? [])
+    .map((token) => {
+      if (LUXON_TOKENS[token]) {
+        return LUXON_TOKENS[token];
+      }
+      const literal = token.startsWith('[') ? token.slice(1, -1) : token;
+      return literal === '' ? '' : `'${literal.replace(/'/g, '')}'`;
+    })
+    .join('');
+}
+
+function cleanCell(value: string): string {
+  return value.replace(/['"]/g, '').trim();
+}
+
+function readEpoch(value: string | number, unit: EpochUnit): number {
+  if (typeof value === 'number') {
+    return Math.round(value * EPOCH_SCALE[unit]);
+  }
+  const cleaned = cleanCell(value);
+  if (/^-?\d+$/.test(cleaned)) {
+    return epochDigitsToMillis(cleaned, unit);
+  }
+  const number = cleaned === '' ? NaN : Number(cleaned);
+  return Number.isFinite(number) ? Math.round(number * EPOCH_SCALE[unit]) : NaN;
+}
+
+function readISO(text: string, zone: Zone | 'local'): number {
+  // fromSQL also takes the common "2024-01-31 14:30:00" variant with a space
+  let parsed = DateTime.fromISO(text, { zone });
+  if (!parsed.isValid) {
+    parsed = DateTime.fromSQL(text, { zone });
+  }
+  return parsed.isValid ? parsed.toMillis() : NaN;
+}
+
+// Build a time from matched date parts; groups 4-8 are hour, minute, second, fraction and AM/PM
+function fromDateParts(
+  zone: Zone | 'local',
+  year: string,
+  month: string,
+  day: string,
+  time: Array<string | undefined>
+): number {
+  const [hourText, minuteText, secondText, fraction, meridiem] = time;
+  let hour = hourText ? parseInt(hourText, 10) : 0;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return NaN;
+    }
+    hour = (hour % 12) + (/^p/i.test(meridiem) ? 12 : 0);
+  }
+
+  // Out-of-range parts (month 13, February 30th) make the result invalid instead of rolling over
+  const parsed = DateTime.fromObject(
+    {
+      year: parseInt(year, 10),
+      month: parseInt(month, 10),
+      day: parseInt(day, 10),
+      hour,
+      minute: minuteText ? parseInt(minuteText, 10) : 0,
+      second: secondText ? parseInt(secondText, 10) : 0,
+      millisecond: fraction ? parseInt(fraction.padEnd(3, '0'), 10) : 0,
+    },
+    { zone }
+  );
+  return parsed.isValid ? parsed.toMillis() : NaN;
+}
+
+// Try every known layout: epochs, ISO 8601, numeric dates, then RFC 2822 / HTTP / whatever Date.parse takes
+function readAuto(value: string | number, zone: Zone | 'local'): number {
+  if (typeof value === 'number') {
+    return epochToMillis(value);
+  }
+
+  const cleaned = cleanCell(value);
+  if (cleaned === '') {
+    return NaN;
+  }
+  if (/^-?\d{18,}$/.test(cleaned)) {
+    return epochDigitsToMillis(cleaned, 'ns');
+  }
+  if (/^-?\d+(\.\d+)?$/.test(cleaned)) {
+    return epochToMillis(Number(cleaned));
+  }
+
+  if (/^[+-]?\d{4}-\d{2}/.test(cleaned)) {
+    const iso = readISO(cleaned, zone);
+    if (!isNaN(iso)) {
+      return iso;
+    }
+  }
+
+  let match = cleaned.match(DAY_FIRST_DATE);
+  if (match) {
+    return fromDateParts(zone, match[3], match[2], match[1], match.slice(4));
+  }
+  match = cleaned.match(SLASHED_DATE);
+  if (match) {
+    const dayFirst = parseInt(match[1], 10) > 12;
+    return dayFirst
+      ? fromDateParts(zone, match[3], match[2], match[1], match.slice(4))
+      : fromDateParts(zone, match[3], match[1], match[2], match.slice(4));
+  }
+  match = cleaned.match(YEAR_FIRST_SLASHED_DATE);
+  if (match) {
+    return fromDateParts(zone, match[1], match[2], match[3], match.slice(4));
+  }
+
+  let parsed = DateTime.fromRFC2822(cleaned, { zone });
+  if (!parsed.isValid) {
+    parsed = DateTime.fromHTTP(cleaned, { zone });
+  }
+  return parsed.isValid ? parsed.toMillis() : Date.parse(cleaned);
+}
+
+// Throws on an unknown time zone or an empty custom pattern, so a misconfiguration fails the whole load
+export function createTimestampParser({ format = 'auto', pattern = '', timeZone }: TimestampOptions = {}): TimestampParser {
+  const zone = resolveZone(timeZone);
+
+  switch (format) {
+    case 'iso':
+      return (value) => (typeof value === 'string' ? readISO(cleanCell(value), zone) : NaN);
+    case 'epoch_s':
+      return (value) => readEpoch(value, 's');
+    case 'epoch_ms':
+      return (value) => readEpoch(value, 'ms');
+    case 'epoch_us':
+      return (value) => readEpoch(value, 'us');
+    case 'epoch_ns':
+      return (value) => readEpoch(value, 'ns');
+    case 'custom': {
+      if (pattern.trim() === '') {
+        throw new Error('Timestamp pattern is empty; enter one such as DD.MM.YYYY HH:mm');
+      }
+      const parser = DateTime.buildFormatParser(toLuxonPattern(pattern.trim()), { locale: 'en-US' });
+      return (value) => {
+        const parsed = DateTime.fromFormatParser(cleanCell(String(value)), parser, { zone });
+        return parsed.isValid ? parsed.toMillis() : NaN;
+      };
+    }
+    default:
+      return (value) => readAuto(value, zone);
+  }
+}
+
+// Epoch unit selected by an explicit epoch format, for protocols whose timestamps are always integers
+export function epochUnitOf(format: TimestampFormat | undefined): EpochUnit | null {
+  switch (format) {
+    case 'epoch_s':
+      return 's';
+    case 'epoch_ms':
+      return 'ms';
+    case 'epoch_us':
+      return 'us';
+    case 'epoch_ns':
+      return 'ns';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,32 @@
+import { runAnalysis } from '../utils/analysisPipeline';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from '../utils/analysisWorker';
+
+/**
+ * Analysis Worker
+ * Runs the analysis pipeline (including TensorFlow.js training) off the main thread
+ */
+
+const ctx = self as unknown as {
+  postMessage(message: AnalysisWorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<AnalysisWorkerRequest>) => void): void;
+};
+
+ctx.addEventListener('message', async (event) => {
+  const request = event.data;
+  if (request.type !== 'analyze') {
+    return;
+  }
+
+  try {
+    const result = await runAnalysis(request.series, request.config, (progress) =>
+      ctx.postMessage({ type: 'progress', id: request.id, progress })
+    );
+    ctx.postMessage({ type: 'result', id: request.id, result });
+  } catch (error) {
+    ctx.postMessage({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});